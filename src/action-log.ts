@@ -0,0 +1,91 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+import { Agent, Location, LlmToolCall } from '@little-samo/samo-ai';
+
+/**
+ * One tool call as persisted in the action log
+ */
+export interface ActionLogEntry {
+  time: string;
+  agent: string;
+  /** Position of the call within the agent's batch of actions */
+  index: number;
+  toolCall: LlmToolCall;
+}
+
+/**
+ * Append-only JSONL log of the tool calls agents executed in a location,
+ * kept under states/actions because the location's messages do not
+ * include them
+ */
+export class ActionLog {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  public constructor(public readonly filePath: string) {}
+
+  public static defaultPath(location: string): string {
+    return path.join(process.cwd(), 'states', 'actions', `${location}.jsonl`);
+  }
+
+  /**
+   * Appends the tool calls agents execute in the location to the log
+   */
+  public setLocationEventHandlers(location: Location) {
+    location.on(
+      'agentExecuteNextAction',
+      (agent: Agent, index: number, toolCall: LlmToolCall) => {
+        this.append({
+          time: new Date().toISOString(),
+          agent: agent.model.name,
+          index,
+          toolCall,
+        });
+      }
+    );
+  }
+
+  public append(entry: ActionLogEntry) {
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, JSON.stringify(entry) + '\n');
+      })
+      .catch((error) => {
+        console.error(`Action log write failed: ${error}`);
+      });
+  }
+
+  /**
+   * Waits until all queued entries are written
+   */
+  public async flush() {
+    await this.writeQueue;
+  }
+
+  /**
+   * Reads all logged tool calls, after any queued writes.
+   * Returns an empty list when the log does not exist yet.
+   */
+  public async readEntries(): Promise<ActionLogEntry[]> {
+    await this.flush();
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: ActionLogEntry[] = [];
+    for (const line of raw.split(/\r?\n/)) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as ActionLogEntry);
+      } catch (_e) {
+        // Skip lines truncated by an interrupted write
+      }
+    }
+    return entries;
+  }
+}
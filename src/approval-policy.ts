@@ -0,0 +1,229 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+import { Agent, Location, LlmToolCall } from '@little-samo/samo-ai';
+
+import { readDataFile } from './data-file';
+import {
+  getFetchUrl,
+  getMcpGimmicks,
+  JsonRpcRequest,
+  McpGimmick,
+} from './mcp-dry-run';
+
+/**
+ * A call needs approval when every pattern given in a rule matches.
+ * Patterns are case-insensitive regular expressions, e.g. `place_order`.
+ */
+export interface ApprovalRule {
+  /** Location key, e.g. `polymarket_trading` */
+  location?: string;
+  /** Key or name of the MCP gimmick the call goes through */
+  gimmick?: string;
+  /** MCP tool name, e.g. `place_order` */
+  tool?: string;
+}
+
+export interface ApprovalPolicyFile {
+  rules: ApprovalRule[];
+}
+
+/**
+ * An MCP tool call waiting for the user's decision
+ */
+export interface ApprovalRequest {
+  location: string;
+  agentName: string;
+  toolCall: LlmToolCall;
+  rule: ApprovalRule;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  reason?: string;
+}
+
+export type ApprovalHandler = (
+  request: ApprovalRequest
+) => Promise<ApprovalDecision>;
+
+const APPROVAL_POLICY_FILES = [
+  'approval-policy.json',
+  'approval-policy.yaml',
+  'approval-policy.yml',
+];
+
+function matchesPattern(pattern: string | undefined, values: string[]) {
+  if (pattern === undefined) return true;
+  const regex = new RegExp(pattern, 'i');
+  return values.some((value) => regex.test(value));
+}
+
+/**
+ * Holds tool calls matching configured rules until the user approves them
+ */
+export class ApprovalPolicy {
+  private actingAgentName: string | null = null;
+
+  private constructor(
+    public readonly filePath: string,
+    private rules: ApprovalRule[]
+  ) {}
+
+  /**
+   * Finds an approval policy file in the working directory
+   */
+  public static async findDefaultPath(): Promise<string | null> {
+    for (const file of APPROVAL_POLICY_FILES) {
+      const filePath = path.join(process.cwd(), file);
+      try {
+        await fs.access(filePath);
+        return filePath;
+      } catch (_e) {
+        // Try the next candidate
+      }
+    }
+    return null;
+  }
+
+  public static async load(filePath: string): Promise<ApprovalPolicy> {
+    const data = await readDataFile<ApprovalPolicyFile>(filePath);
+    if (!data || !Array.isArray(data.rules)) {
+      throw new Error(`Approval policy ${filePath} must contain "rules"`);
+    }
+    data.rules.forEach((rule, i) => {
+      for (const field of ['location', 'gimmick', 'tool'] as const) {
+        const pattern = rule[field];
+        if (pattern === undefined) continue;
+        if (typeof pattern !== 'string') {
+          throw new Error(`${filePath}: rules[${i}].${field} must be a string`);
+        }
+        try {
+          new RegExp(pattern, 'i');
+        } catch (error) {
+          throw new Error(
+            `${filePath}: rules[${i}].${field} is not a valid pattern: ${error}`
+          );
+        }
+      }
+    });
+    return new ApprovalPolicy(filePath, data.rules);
+  }
+
+  public get size(): number {
+    return this.rules.length;
+  }
+
+  /**
+   * Returns the first rule matching a call of an MCP tool, or undefined
+   */
+  public match(
+    location: string,
+    gimmick: McpGimmick,
+    tool: string
+  ): ApprovalRule | undefined {
+    const gimmickNames = gimmick.name
+      ? [gimmick.key, gimmick.name]
+      : [gimmick.key];
+    return this.rules.find(
+      (rule) =>
+        matchesPattern(rule.location, [location]) &&
+        matchesPattern(rule.gimmick, gimmickNames) &&
+        matchesPattern(rule.tool, [tool])
+    );
+  }
+
+  /**
+   * Tracks which agent is acting, to name it in approval requests
+   */
+  public setLocationEventHandlers(location: Location) {
+    location.on('agentExecuteNextActions', (agent: Agent) => {
+      this.actingAgentName = agent.model.name;
+    });
+  }
+
+  /**
+   * Holds calls to the location's MCP gimmicks until the handler decides.
+   * The MCP client talks to serverUrl through the global fetch, so the
+   * policy wraps fetch: a denied call never reaches the server and the
+   * agent gets the denial as the tool's error result. Install it after a
+   * dry run so approved calls are simulated.
+   */
+  public async install(locationKey: string, handler: ApprovalHandler) {
+    const gimmicks = await getMcpGimmicks(locationKey);
+    const next = globalThis.fetch;
+    globalThis.fetch = async (input, init) => {
+      const url = getFetchUrl(input);
+      const gimmick = gimmicks.find((candidate) =>
+        url.startsWith(candidate.serverUrl)
+      );
+      if (!gimmick) return next(input, init);
+
+      let request: Request;
+      let body: unknown;
+      try {
+        request = new Request(input, init);
+        if (request.method !== 'POST') return next(request);
+        body = JSON.parse(await request.clone().text());
+      } catch (_e) {
+        // Not JSON-RPC, so no tool can run; the server answers the error
+        return next(input, init);
+      }
+
+      const messages = (
+        Array.isArray(body) ? body : [body]
+      ) as JsonRpcRequest[];
+      const denials = new Map<JsonRpcRequest, string>();
+      for (const message of messages) {
+        const tool =
+          message?.method === 'tools/call' ? message.params?.name : undefined;
+        if (typeof tool !== 'string') continue;
+        const rule = this.match(locationKey, gimmick, tool);
+        if (!rule) continue;
+
+        const decision = await handler({
+          location: locationKey,
+          agentName: this.actingAgentName ?? 'An agent',
+          toolCall: {
+            name: tool,
+            arguments: message.params?.arguments ?? {},
+          } as LlmToolCall,
+          rule,
+        });
+        if (!decision.approved) {
+          denials.set(
+            message,
+            `The user denied ${tool}${decision.reason ? `: ${decision.reason}` : ''}. Do not retry it without asking the user.`
+          );
+        }
+      }
+      if (denials.size === 0) return next(request);
+
+      // Nothing of a batch with a denied call is sent
+      const responses = messages.map((message) => {
+        const denial = denials.get(message);
+        return denial !== undefined
+          ? {
+              jsonrpc: '2.0',
+              id: message.id ?? null,
+              result: {
+                content: [{ type: 'text', text: denial }],
+                isError: true,
+              },
+            }
+          : {
+              jsonrpc: '2.0',
+              id: message?.id ?? null,
+              error: {
+                code: -32001,
+                message: 'Not sent: the batch contained a call the user denied',
+              },
+            };
+      });
+      return new Response(
+        JSON.stringify(Array.isArray(body) ? responses : responses[0]),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    };
+  }
+}
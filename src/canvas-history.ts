@@ -0,0 +1,169 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * One saved version of a location, gimmick or agent canvas
+ */
+export interface CanvasRevision {
+  /** Canvas name; gimmick and agent canvases are prefixed with `owner/` */
+  canvas: string;
+  text: string;
+  /** Display name of the user or agent that wrote this version */
+  modifier: string;
+  time: string;
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Line diff of two texts based on their longest common subsequence
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split(/\r?\n/) : [];
+  const b = after ? after.split(/\r?\n/) : [];
+
+  // Only the differing middle part needs the O(n*m) table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  // lengths[i][j]: LCS length of a[start + i..endA) and b[start + j..endB)
+  const lengths = Array.from({ length: n + 1 }, () =>
+    new Array<number>(m + 1).fill(0)
+  );
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[start + i] === b[start + j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = a
+    .slice(0, start)
+    .map((text) => ({ type: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      lines.push({ type: 'same', text: a[start + i] });
+      i++;
+      j++;
+    } else if (i < n && (j === m || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      // Removed lines come before the lines that replace them
+      lines.push({ type: 'removed', text: a[start + i] });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: b[start + j] });
+      j++;
+    }
+  }
+  for (const text of a.slice(endA)) {
+    lines.push({ type: 'same', text });
+  }
+  return lines;
+}
+
+/**
+ * Revisions of the canvases seen in one location, persisted under
+ * states/canvas-history so their evolution survives restarts
+ */
+export class CanvasHistory {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(
+    public readonly filePath: string,
+    private revisions: Map<string, CanvasRevision[]>,
+    private readonly maxRevisions: number
+  ) {}
+
+  public static defaultPath(location: string): string {
+    return path.join(
+      process.cwd(),
+      'states',
+      'canvas-history',
+      `${location}.jsonl`
+    );
+  }
+
+  /**
+   * Loads the history file, keeping the newest `maxRevisions` revisions
+   * of each canvas. A missing file starts an empty history.
+   */
+  public static async load(
+    filePath: string,
+    maxRevisions = 200
+  ): Promise<CanvasHistory> {
+    let raw = '';
+    try {
+      raw = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const revisions = new Map<string, CanvasRevision[]>();
+    for (const line of raw.split(/\r?\n/)) {
+      if (!line.trim()) continue;
+      try {
+        const revision = JSON.parse(line) as CanvasRevision;
+        const list = revisions.get(revision.canvas) ?? [];
+        list.push(revision);
+        revisions.set(revision.canvas, list);
+      } catch (_e) {
+        // Skip lines truncated by an interrupted write
+      }
+    }
+    for (const [canvas, list] of revisions) {
+      revisions.set(canvas, list.slice(-maxRevisions));
+    }
+    return new CanvasHistory(filePath, revisions, maxRevisions);
+  }
+
+  public get(canvas: string): CanvasRevision[] {
+    return this.revisions.get(canvas) ?? [];
+  }
+
+  /**
+   * Records a revision unless the text equals the canvas's latest one.
+   * Returns whether it was recorded.
+   */
+  public add(revision: CanvasRevision): boolean {
+    const list = this.revisions.get(revision.canvas) ?? [];
+    if (list.length > 0 && list[list.length - 1].text === revision.text) {
+      return false;
+    }
+    list.push(revision);
+    if (list.length > this.maxRevisions) list.shift();
+    this.revisions.set(revision.canvas, list);
+
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, JSON.stringify(revision) + '\n');
+      })
+      .catch((error) => {
+        console.error(`Canvas history write failed: ${error}`);
+      });
+    return true;
+  }
+
+  /**
+   * Waits until all queued revisions are written
+   */
+  public async flush() {
+    await this.writeQueue;
+  }
+}
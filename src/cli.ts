@@ -1,10 +1,11 @@
+import fs from 'fs/promises';
 import path from 'path';
 
 import {
   LocationId,
+  LlmPlatform,
   SamoAI,
   UserId,
-  Location,
   AgentId,
 } from '@little-samo/samo-ai';
 import {
@@ -14,18 +15,107 @@ import {
   LocationStorage,
   UserStorage,
 } from '@little-samo/samo-ai-repository-storage';
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import * as dotenv from 'dotenv';
 
 import * as packageJson from '../package.json';
 
+import { ActionLog } from './action-log';
+import { ApprovalPolicy } from './approval-policy';
+import { CanvasHistory } from './canvas-history';
+import {
+  COST_GROUP_BYS,
+  CostGroupBy,
+  CostLedger,
+  formatCostSummary,
+  parseLedgerDate,
+  summarizeCosts,
+} from './cost-ledger';
+import { readDataFile } from './data-file';
+import { InputHistory } from './input-history';
+import { loadLlmCostOverrides, resolveLlmCost } from './llm-cost';
+import { installLlmUsageTracking } from './llm-usage';
+import { confirm, resetLocationState } from './location-reset';
+import { McpDryRun } from './mcp-dry-run';
+import { MemoryPins } from './memory-pins';
+import { MockLlmPlatform } from './mock-llm';
+import { DEFAULT_MOCK_MCP_PORT, MockMcpServer } from './mock-mcp-server';
+import { MockPolymarket } from './mock-polymarket';
+import { listAgentModels, LocationParticipants } from './participants';
+import {
+  formatTranscript,
+  getScriptAgents,
+  loadConversationScript,
+  ScriptRunner,
+  TranscriptFormat,
+} from './script-runner';
+import { SessionBudget } from './session-budget';
+import {
+  readSessionLog,
+  SessionRecorder,
+  SessionReplayer,
+} from './session-recorder';
 import { TerminalUI } from './terminal-ui';
+import {
+  defaultExportPath,
+  EXPORT_FORMATS,
+  ExportFormat,
+  getExportFormat,
+  loadLocationTranscript,
+  writeLocationTranscript,
+} from './transcript-export';
+import { LocationUpdateLoop } from './update-loop';
 
 dotenv.config();
 
 interface ChatOptions {
   agents: string;
   location: string;
+  mockLlm?: string;
+  record?: string | boolean;
+  maxCost?: string;
+  maxTokens?: string;
+  keepParticipants?: boolean;
+  reset?: boolean;
+  yes?: boolean;
+  approvalPolicy?: string;
+  dryRun?: string | boolean;
+}
+
+interface RunOptions {
+  agents?: string;
+  location?: string;
+  mockLlm?: string;
+  record?: string | boolean;
+  output?: string;
+  format: TranscriptFormat;
+}
+
+interface CostsOptions {
+  by?: CostGroupBy;
+  since?: string;
+  until?: string;
+  location?: string;
+  agent?: string;
+}
+
+interface AgentsOptions {
+  location: string;
+}
+
+interface ExportOptions {
+  location: string;
+  format?: string;
+  output?: string;
+}
+
+interface McpServerOptions {
+  port: string;
+}
+
+interface ReplayOptions {
+  speed: string;
+  maxGap: string;
 }
 
 /**
@@ -79,6 +169,131 @@ async function bootstrap() {
   program.version(packageJson.version);
   program.description(packageJson.description);
 
+  /**
+   * Loads the location and agents, and sets up the location's participants.
+   * `replace` swaps the participants for the user and the requested agents;
+   * `keep` leaves existing participants in place and adds the requested ones.
+   */
+  const prepareLocation = async (
+    agents: string[],
+    location: string,
+    mode: 'replace' | 'keep' = 'replace'
+  ) => {
+    await locationStorage.initialize([location]);
+    await userStorage.initialize(['user']);
+
+    const locationId = Number(
+      locationStorage.getLocationIds()[0]
+    ) as LocationId;
+    const userId = Number(userStorage.getUserIds()[0]) as UserId;
+    const userName = (await userStorage.getUserModel(userId)).nickname;
+
+    // Initialize location state
+    const locationState =
+      await locationStorage.getOrCreateLocationState(locationId);
+
+    if (mode === 'keep') {
+      // Load the agents already in the location along with the requested ones
+      const existingIds = locationState.agentIds.map(Number);
+      const existingAgents = (await listAgentModels())
+        .filter((model) => existingIds.includes(Number(model.id)))
+        .map((model) => model.key);
+      agents = [
+        ...existingAgents,
+        ...agents.filter((agent) => !existingAgents.includes(agent)),
+      ];
+    } else {
+      // Clear existing users and agents
+      for (const locationUserId of locationState.userIds) {
+        await locationStorage.removeLocationStateUserId(
+          locationId,
+          locationUserId
+        );
+      }
+      for (const locationAgentId of locationState.agentIds) {
+        await locationStorage.removeLocationStateAgentId(
+          locationId,
+          locationAgentId
+        );
+      }
+    }
+    await agentStorage.initialize(agents);
+
+    // Add the user
+    if (
+      mode === 'replace' ||
+      !locationState.userIds.map(Number).includes(Number(userId))
+    ) {
+      await locationStorage.addLocationStateUserId(locationId, userId);
+    }
+
+    // Add the agents
+    const presentIds =
+      mode === 'keep' ? locationState.agentIds.map(Number) : [];
+    for (const agentId of agentStorage.getAgentIds()) {
+      if (presentIds.includes(Number(agentId))) continue;
+      await locationStorage.addLocationStateAgentId(
+        locationId,
+        Number(agentId) as AgentId
+      );
+    }
+
+    return { locationId, userId, userName, agents };
+  };
+
+  /**
+   * Swaps the real LLM providers for recorded responses when a
+   * mock fixture is given
+   */
+  const installMockLlm = async (fixturePath?: string) => {
+    if (!fixturePath) return null;
+    const mockLlm = await MockLlmPlatform.load(fixturePath);
+    mockLlm.install();
+    return mockLlm;
+  };
+
+  /**
+   * Loads and validates user-level and project-level price overrides for
+   * the commands that price LLM calls; an invalid file is fatal there
+   */
+  const loadPrices = async (): Promise<string[]> => {
+    try {
+      return await loadLlmCostOverrides();
+    } catch (error) {
+      const errMessage = error instanceof Error ? error.message : String(error);
+      console.error(errMessage);
+      process.exit(1);
+    }
+  };
+
+  const costLedger = new CostLedger();
+
+  /**
+   * Starts a session log when recording is requested
+   */
+  const startRecording = async (
+    record: string | boolean | undefined,
+    location: string,
+    locationId: LocationId
+  ) => {
+    if (!record) return null;
+    const agentIds = agentStorage.getAgentIds().map(Number) as AgentId[];
+    const models = await agentStorage.getAgentModels(agentIds);
+    return SessionRecorder.create(
+      typeof record === 'string'
+        ? record
+        : SessionRecorder.defaultPath(location),
+      {
+        locationId,
+        location,
+        agents: agentIds.map((id) => ({
+          id,
+          name: models.get(id)?.name ?? String(id),
+        })),
+      }
+    );
+  };
+
   program
     .command('chat')
     .description('Chat with SamoAI agents')
@@ -88,17 +303,124 @@ async function bootstrap() {
       'samo,nyx'
     )
     .option('-l, --location <location>', 'location for the chat', 'empty')
-    .action(async (options: ChatOptions) => {
-      const agents = options.agents.split(',');
-      await locationStorage.initialize([options.location]);
-      await agentStorage.initialize(agents);
-      await userStorage.initialize(['user']);
+    .option(
+      '--mock-llm <fixture>',
+      'replay recorded LLM responses from a fixture instead of calling providers'
+    )
+    .option(
+      '--record [file]',
+      'record all session events to a log (default: states/sessions/)'
+    )
+    .option(
+      '--max-cost <usd>',
+      'pause agents once this session costs more than this'
+    )
+    .option(
+      '--max-tokens <count>',
+      'pause agents once this session uses more tokens than this'
+    )
+    .addOption(
+      new Option(
+        '--keep-participants',
+        'keep the users and agents already in the location (--agents adds to them)'
+      ).conflicts('reset')
+    )
+    .option(
+      '--reset',
+      'start fresh: clear messages, canvases, mission and the memories of --agents (required)'
+    )
+    .option('-y, --yes', 'skip the --reset confirmation prompt')
+    .option(
+      '--approval-policy <file>',
+      'ask before running matching tool calls (default: approval-policy.{json,yaml} if present)'
+    )
+    .option(
+      '--dry-run [fixture]',
+      'simulate mutating MCP tool calls (orders, transfers) instead of sending them; the fixture supplies canned results'
+    )
+    .action(async (options: ChatOptions, command: Command) => {
+      const priceFiles = await loadPrices();
+      const maxCost =
+        options.maxCost !== undefined ? Number(options.maxCost) : undefined;
+      const maxTokens =
+        options.maxTokens !== undefined ? Number(options.maxTokens) : undefined;
+      if (
+        (maxCost !== undefined && !(maxCost > 0)) ||
+        (maxTokens !== undefined && !(maxTokens > 0))
+      ) {
+        console.error('--max-cost and --max-tokens must be positive numbers');
+        process.exit(1);
+      }
 
-      const locationId = Number(
-        locationStorage.getLocationIds()[0]
-      ) as LocationId;
-      const userId = Number(userStorage.getUserIds()[0]) as UserId;
-      const userName = (await userStorage.getUserModel(userId)).nickname;
+      if (options.reset) {
+        // The default agents may not be the ones whose memories should go
+        if (command.getOptionValueSource('agents') === 'default') {
+          console.error(
+            '--reset needs --agents to name the agents whose memories are cleared'
+          );
+          process.exit(1);
+        }
+        const confirmed =
+          options.yes ||
+          (await confirm(
+            `Reset location "${options.location}"? This deletes its messages, canvases and mission, and the memories of ${options.agents}.`
+          ));
+        if (!confirmed) {
+          console.log('Aborted');
+          process.exit(0);
+        }
+        const removed = await resetLocationState(
+          options.location,
+          options.agents.split(',')
+        );
+        console.log(`Reset ${removed.length} state file(s)`);
+      }
+
+      let approvalPolicy: ApprovalPolicy | null = null;
+      const approvalPolicyPath =
+        options.approvalPolicy ?? (await ApprovalPolicy.findDefaultPath());
+      if (approvalPolicyPath) {
+        try {
+          approvalPolicy = await ApprovalPolicy.load(approvalPolicyPath);
+        } catch (error) {
+          const errMessage =
+            error instanceof Error ? error.message : String(error);
+          console.error(errMessage);
+          process.exit(1);
+        }
+      }
+
+      let dryRun: McpDryRun | null = null;
+      if (options.dryRun) {
+        try {
+          dryRun = await McpDryRun.create(
+            options.location,
+            typeof options.dryRun === 'string' ? options.dryRun : undefined
+          );
+        } catch (error) {
+          const errMessage =
+            error instanceof Error ? error.message : String(error);
+          console.error(errMessage);
+          process.exit(1);
+        }
+        dryRun.install();
+      }
+
+      // With --keep-participants, only agents given explicitly are added
+      const requestedAgents =
+        options.keepParticipants &&
+        command.getOptionValueSource('agents') === 'default'
+          ? []
+          : options.agents.split(',');
+      const mockLlm = await installMockLlm(options.mockLlm);
+      installLlmUsageTracking();
+      const { locationId, userId, userName, agents } = await prepareLocation(
+        requestedAgents,
+        options.location,
+        options.keepParticipants ? 'keep' : 'replace'
+      );
+
+      const actionLog = new ActionLog(ActionLog.defaultPath(options.location));
 
       // Initialize UI and store reference for SIGINT handler
       terminalUI = new TerminalUI(
@@ -106,93 +428,599 @@ async function bootstrap() {
         locationId,
         userId,
         locationStorage,
-        agentStorage
+        agentStorage,
+        {
+          budget: new SessionBudget(maxCost, maxTokens),
+          history: await InputHistory.load(
+            InputHistory.defaultPath(options.location)
+          ),
+          location: options.location,
+          canvasHistory: await CanvasHistory.load(
+            CanvasHistory.defaultPath(options.location)
+          ),
+          memoryPins: await MemoryPins.load(MemoryPins.defaultPath()),
+          actionLog,
+        }
       );
       terminalUI.addMessage(
         'System',
         `Chatting with agents: ${agents.join(', ')} at location: ${options.location}`
       );
+      if (mockLlm) {
+        terminalUI.addMessage(
+          'System',
+          `Using mock LLM responses from: ${options.mockLlm}`
+        );
+      }
+      const recorder = await startRecording(
+        options.record,
+        options.location,
+        locationId
+      );
+      if (recorder) {
+        terminalUI.addMessage(
+          'System',
+          `Recording session to: ${recorder.filePath}`
+        );
+        terminalUI.onUserMessage((name, message) =>
+          recorder.recordUserMessage(name, message)
+        );
+        terminalUI.addShutdownHandler(() => recorder.flush());
+      }
+      if (priceFiles.length > 0) {
+        terminalUI.addMessage(
+          'System',
+          `Loaded LLM prices from: ${priceFiles.join(', ')}`
+        );
+      }
+      if (approvalPolicy) {
+        // Wraps the dry run's fetch, so approved calls are still simulated
+        await approvalPolicy.install(options.location, (request) =>
+          terminalUI!.requestApproval(request)
+        );
+        terminalUI.addMessage(
+          'System',
+          `Approval required for ${approvalPolicy.size} rule(s) from: ${approvalPolicy.filePath}`
+        );
+      }
+      if (dryRun) {
+        terminalUI.addMessage(
+          'System',
+          dryRun.servers.length > 0
+            ? `Dry run: mutating MCP calls to ${dryRun.servers.join(', ')} are simulated and logged to: ${dryRun.logPath}`
+            : 'Dry run: this location has no MCP gimmicks, so nothing will be simulated'
+        );
+        dryRun.onRecord((record) => {
+          if (record.blocked) {
+            terminalUI!.addMessage(
+              'System',
+              `[Dry run] Blocked a request to ${record.serverUrl} that could not be checked`
+            );
+          } else if (record.simulated) {
+            terminalUI!.addMessage(
+              'System',
+              `[Dry run] Simulated ${record.tool}: ${JSON.stringify(record.arguments ?? {})}`
+            );
+          }
+        });
+        terminalUI.addShutdownHandler(() => dryRun!.flush());
+      }
       terminalUI.addMessage('System', 'Press Ctrl+C to exit...');
 
-      // Initialize location state
-      const locationState =
-        await locationStorage.getOrCreateLocationState(locationId);
+      const participants = await LocationParticipants.create(
+        agentStorage,
+        locationStorage,
+        locationId
+      );
+      const agentKeys = participants.availableAgents.map((model) => model.key);
+      terminalUI.registerCommand({
+        name: 'invite',
+        args: '<agent>',
+        description: 'Bring an agent from models/agents into this location',
+        complete: (argIndex) => (argIndex === 0 ? agentKeys : []),
+        run: async ([agent]) => {
+          if (!agent) throw new Error('Usage: /invite <agent>');
+          const model = await participants.add(agent);
+          await terminalUI!.addAgent(model.id);
+          await terminalUI!.postSystemMessage(
+            `${model.name} joined the location`
+          );
+          // A plain chat replaces the participants with --agents
+          if (!options.keepParticipants) {
+            terminalUI!.addMessage(
+              'System',
+              `${model.name} stays for later chats started with --keep-participants`
+            );
+          }
+        },
+      });
+      terminalUI.registerCommand({
+        name: 'kick',
+        args: '<agent>',
+        description: 'Remove an agent from this location',
+        complete: (argIndex) => (argIndex === 0 ? agentKeys : []),
+        run: async ([agent]) => {
+          if (!agent) throw new Error('Usage: /kick <agent>');
+          const model = await participants.remove(agent);
+          terminalUI!.removeAgentInfo(model.id);
+          await terminalUI!.postSystemMessage(
+            `${model.name} left the location`
+          );
+        },
+      });
+
+      // Load initial messages
+      await terminalUI.loadInitialMessages();
 
-      // Clear existing users and agents
-      for (const locationUserId of locationState.userIds) {
-        await locationStorage.removeLocationStateUserId(
-          locationId,
-          locationUserId
+      // Seed cost totals from previous sessions in this location
+      const ledgerEntries = await costLedger.readEntries({
+        location: options.location,
+      });
+      if (ledgerEntries.length > 0) {
+        terminalUI.seedLlmTotals(
+          ledgerEntries.reduce((sum, e) => sum + e.inputTokens, 0),
+          ledgerEntries.reduce((sum, e) => sum + e.outputTokens, 0),
+          ledgerEntries.reduce((sum, e) => sum + (e.cost ?? 0), 0)
         );
       }
-      for (const locationAgentId of locationState.agentIds) {
-        await locationStorage.removeLocationStateAgentId(
-          locationId,
-          locationAgentId
+      terminalUI.addShutdownHandler(() => costLedger.flush());
+      terminalUI.addShutdownHandler(() => actionLog.flush());
+
+      // Start update loop
+      const updateLoop = new LocationUpdateLoop(
+        locationStorage,
+        userId,
+        locationId,
+        terminalUI
+      );
+      updateLoop.addPauseCondition(() => terminalUI!.isUpdatePaused);
+      updateLoop.addLocationListener((location) =>
+        terminalUI!.applyCanvasEdits(location)
+      );
+      updateLoop.addLocationListener((location) =>
+        terminalUI!.applyAgentEdits(location)
+      );
+      updateLoop.addLocationListener((location) =>
+        costLedger.setLocationEventHandlers(
+          location,
+          options.location,
+          locationId
+        )
+      );
+      updateLoop.addLocationListener((location) =>
+        actionLog.setLocationEventHandlers(location)
+      );
+      if (mockLlm) {
+        updateLoop.addLocationListener((location) =>
+          mockLlm.setLocationEventHandlers(location)
+        );
+      }
+      if (recorder) {
+        updateLoop.addLocationListener((location) =>
+          recorder.setLocationEventHandlers(location)
+        );
+      }
+      if (approvalPolicy) {
+        updateLoop.addLocationListener((location) =>
+          approvalPolicy.setLocationEventHandlers(location)
         );
       }
+      updateLoop.start();
+    });
 
-      // Add the user
-      await locationStorage.addLocationStateUserId(locationId, userId);
+  program
+    .command('run')
+    .description('Run a scripted conversation without a TTY')
+    .argument('<script>', 'conversation script file (YAML or JSON)')
+    .option(
+      '-a, --agents <agents>',
+      'agents to chat with (comma separated, overrides the script)'
+    )
+    .option(
+      '-l, --location <location>',
+      'location for the chat (overrides the script)'
+    )
+    .option('-o, --output <file>', 'write the transcript to a file')
+    .option('-f, --format <format>', 'transcript format (text, jsonl)', 'text')
+    .option(
+      '--mock-llm <fixture>',
+      'replay recorded LLM responses from a fixture instead of calling providers'
+    )
+    .option(
+      '--record [file]',
+      'record all session events to a log (default: states/sessions/)'
+    )
+    .action(async (scriptPath: string, options: RunOptions) => {
+      if (options.format !== 'text' && options.format !== 'jsonl') {
+        console.error(`Unknown transcript format: ${options.format}`);
+        process.exit(1);
+      }
+      await loadPrices();
 
-      // Add the agents
-      for (const agentId of agentStorage.getAgentIds()) {
-        await locationStorage.addLocationStateAgentId(
-          locationId,
-          Number(agentId) as AgentId
+      const script = await loadConversationScript(scriptPath);
+      const agents = options.agents?.split(',') ??
+        getScriptAgents(script) ?? ['samo', 'nyx'];
+      const locationKey = options.location ?? script.location ?? 'empty';
+      const mockLlm = await installMockLlm(options.mockLlm);
+      installLlmUsageTracking();
+
+      const { locationId, userId, userName } = await prepareLocation(
+        agents,
+        locationKey
+      );
+
+      const runner = new ScriptRunner(
+        userName,
+        locationId,
+        userId,
+        locationStorage,
+        script
+      );
+      const updateLoop = new LocationUpdateLoop(
+        locationStorage,
+        userId,
+        locationId,
+        runner
+      );
+      const actionLog = new ActionLog(ActionLog.defaultPath(locationKey));
+      updateLoop.addLocationListener((location) =>
+        costLedger.setLocationEventHandlers(location, locationKey, locationId)
+      );
+      updateLoop.addLocationListener((location) =>
+        actionLog.setLocationEventHandlers(location)
+      );
+      if (mockLlm) {
+        updateLoop.addLocationListener((location) =>
+          mockLlm.setLocationEventHandlers(location)
         );
       }
+      const recorder = await startRecording(
+        options.record,
+        locationKey,
+        locationId
+      );
+      if (recorder) {
+        updateLoop.addLocationListener((location) =>
+          recorder.setLocationEventHandlers(location)
+        );
+        runner.onUserMessage((name, message) =>
+          recorder.recordUserMessage(name, message)
+        );
+      }
+      updateLoop.start();
 
-      // Load initial messages
-      await terminalUI.loadInitialMessages();
+      let exitCode = 0;
+      try {
+        await runner.run();
+      } catch (error) {
+        const errMessage =
+          error instanceof Error ? error.message : String(error);
+        runner.addMessage('Error', errMessage);
+        exitCode = 1;
+      }
+
+      updateLoop.stop();
+      await runner.waitForSaves();
+      await recorder?.flush();
+      await costLedger.flush();
+      await actionLog.flush();
+
+      const transcript = formatTranscript(runner.entries, options.format);
+      if (options.output) {
+        await fs.writeFile(options.output, transcript);
+      } else {
+        process.stdout.write(transcript);
+      }
+      process.exit(exitCode);
+    });
+
+  program
+    .command('costs')
+    .description('Report LLM costs recorded in the cost ledger')
+    .option(
+      '-b, --by <group>',
+      `group totals by (${COST_GROUP_BYS.join(', ')}); all when omitted`
+    )
+    .option('--since <date>', 'include entries from this date (or e.g. 7d)')
+    .option('--until <date>', 'include entries before this date')
+    .option('-l, --location <location>', 'only include this location')
+    .option('-a, --agent <agent>', 'only include this agent name')
+    .action(async (options: CostsOptions) => {
+      if (options.by && !COST_GROUP_BYS.includes(options.by)) {
+        console.error(`Unknown grouping: ${options.by}`);
+        process.exit(1);
+      }
 
-      // Update loop - periodically checks for and processes agent responses
-      const updateLoop = async () => {
-        while (true) {
-          try {
-            const locationState =
-              await locationStorage.getOrCreateLocationState(locationId);
-            const now = new Date();
-
-            if (
-              locationState.pauseUpdateUntil &&
-              new Date(locationState.pauseUpdateUntil) <= now
-            ) {
-              await SamoAI.instance.updateLocation(userId, locationId, {
-                preAction: async (location: Location) => {
-                  // Setup message and thinking event handlers
-                  terminalUI!.setMessageEventHandlers(location);
-                },
-                handleSave: async (save) => {
-                  terminalUI!.incrementSaveCount();
-                  try {
-                    await save;
-                  } catch (error) {
-                    const errMessage =
-                      error instanceof Error ? error.message : String(error);
-                    terminalUI!.addMessage(
-                      'Error',
-                      `Save failed: ${errMessage}`
-                    );
-                  } finally {
-                    terminalUI!.decrementSaveCount();
-                  }
-                },
-              });
-            }
-
-            await new Promise((resolve) => setTimeout(resolve, 100));
-          } catch (error) {
-            const errMessage =
-              error instanceof Error ? error.message : String(error);
-            terminalUI!.addMessage('Error', `Update Loop: ${errMessage}`);
-            await new Promise((resolve) => setTimeout(resolve, 1000));
+      const entries = await costLedger.readEntries({
+        since: options.since ? parseLedgerDate(options.since) : undefined,
+        until: options.until ? parseLedgerDate(options.until) : undefined,
+        location: options.location,
+        agent: options.agent,
+      });
+      if (entries.length === 0) {
+        console.log(`No ledger entries found in ${costLedger.filePath}`);
+        return;
+      }
+
+      const groupBys = options.by ? [options.by] : COST_GROUP_BYS;
+      const sections = groupBys.map((groupBy) =>
+        formatCostSummary(`By ${groupBy}`, summarizeCosts(entries, groupBy))
+      );
+      console.log(sections.join('\n\n'));
+      console.log("\n'?' marks groups with calls that have no price entry");
+    });
+
+  const prices = program
+    .command('prices')
+    .description('Inspect the LLM price table');
+
+  prices
+    .command('check')
+    .description('Show which price entry each configured agent model uses')
+    .action(async () => {
+      await loadPrices();
+      const agentsDir = path.join(process.cwd(), 'models', 'agents');
+      const files = (await fs.readdir(agentsDir))
+        .filter((file) => file.endsWith('.json'))
+        .sort();
+
+      let unpriced = 0;
+      for (const file of files) {
+        const agentModel = await readDataFile<{
+          name: string;
+          meta?: {
+            llms?: {
+              model: string;
+              platform: LlmPlatform;
+              thinking?: boolean;
+            }[];
+          };
+        }>(path.join(agentsDir, file));
+        console.log(`${agentModel.name} (${file})`);
+
+        for (const llm of agentModel.meta?.llms ?? []) {
+          const label = `${llm.platform}/${llm.model}${llm.thinking ? ' (thinking)' : ''}`;
+          const result = resolveLlmCost(llm.platform, llm.model, llm.thinking);
+          if (!result) {
+            unpriced++;
+            console.log(`  ${label} → NO PRICE ENTRY`);
+            continue;
           }
+          const { config } = result;
+          console.log(
+            `  ${label} → ${config.model} [${result.match}: ${result.matchedName}] in $${config.input} / out $${config.output} per 1M`
+          );
         }
-      };
+      }
 
-      // Start update loop
-      void updateLoop();
+      if (unpriced > 0) {
+        console.log(`\n${unpriced} model(s) have no price entry`);
+        process.exit(1);
+      }
+    });
+
+  const agentsCommand = program
+    .command('agents')
+    .description('Manage the agents of a location');
+
+  /**
+   * Loads the location for an `agents` subcommand
+   */
+  const openParticipants = async (location: string) => {
+    await locationStorage.initialize([location]);
+    const locationId = Number(
+      locationStorage.getLocationIds()[0]
+    ) as LocationId;
+    return LocationParticipants.create(
+      agentStorage,
+      locationStorage,
+      locationId
+    );
+  };
+
+  agentsCommand
+    .command('list')
+    .description('List the agents in a location')
+    .option('-l, --location <location>', 'location', 'empty')
+    .action(async (options: AgentsOptions) => {
+      const participants = await openParticipants(options.location);
+      const agents = await participants.getAgents();
+      if (agents.length === 0) {
+        console.log(`No agents in ${options.location}`);
+        return;
+      }
+      for (const agent of agents) {
+        console.log(`${agent.key}\t${agent.name} (#${agent.id})`);
+      }
+    });
+
+  agentsCommand
+    .command('add')
+    .description('Add an agent from models/agents to a location')
+    .argument('<agent>', 'agent name, e.g. marimo')
+    .option('-l, --location <location>', 'location', 'empty')
+    .action(async (agent: string, options: AgentsOptions) => {
+      const participants = await openParticipants(options.location);
+      try {
+        const model = await participants.add(agent);
+        console.log(`Added ${model.name} to ${options.location}`);
+        console.log(
+          'Start the chat with --keep-participants to keep the added agent'
+        );
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
+  agentsCommand
+    .command('remove')
+    .description('Remove an agent from a location')
+    .argument('<agent>', 'agent name, e.g. marimo')
+    .option('-l, --location <location>', 'location', 'empty')
+    .action(async (agent: string, options: AgentsOptions) => {
+      const participants = await openParticipants(options.location);
+      try {
+        const model = await participants.remove(agent);
+        console.log(`Removed ${model.name} from ${options.location}`);
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
+  program
+    .command('export')
+    .description(
+      'Export a location history with its mission and canvases (md, jsonl, html)'
+    )
+    .option('-l, --location <location>', 'location', 'empty')
+    .option(
+      '-f, --format <format>',
+      `export format (${EXPORT_FORMATS.join(', ')}; default: from --output, else md)`
+    )
+    .option(
+      '-o, --output <file>',
+      'output file (default: states/exports/<location>-<time>.<format>)'
+    )
+    .action(async (options: ExportOptions) => {
+      const format =
+        options.format ??
+        (options.output ? getExportFormat(options.output) : 'md');
+      if (!format || !EXPORT_FORMATS.includes(format as ExportFormat)) {
+        console.error(
+          `Unknown export format; use --format ${EXPORT_FORMATS.join('|')}`
+        );
+        process.exit(1);
+      }
+
+      await locationStorage.initialize([options.location]);
+      const locationId = Number(
+        locationStorage.getLocationIds()[0]
+      ) as LocationId;
+      const actionLog = new ActionLog(ActionLog.defaultPath(options.location));
+      const transcript = await loadLocationTranscript(
+        locationStorage,
+        locationId,
+        options.location,
+        await actionLog.readEntries()
+      );
+      const filePath =
+        options.output ??
+        defaultExportPath(options.location, format as ExportFormat);
+      await writeLocationTranscript(
+        transcript,
+        filePath,
+        format as ExportFormat
+      );
+      console.log(
+        `Exported ${transcript.entries.length} entries to ${filePath}`
+      );
+    });
+
+  program
+    .command('replay')
+    .description('Replay a recorded session in the terminal UI')
+    .argument('<file>', 'session log written by --record')
+    .option('-s, --speed <speed>', 'playback speed multiplier', '1')
+    .option(
+      '--max-gap <seconds>',
+      'longest pause between two events before scaling',
+      '5'
+    )
+    .action(async (file: string, options: ReplayOptions) => {
+      const speed = Number(options.speed);
+      const maxGap = Number(options.maxGap);
+      if (!(speed > 0) || !(maxGap >= 0)) {
+        console.error('Speed must be positive and max gap non-negative');
+        process.exit(1);
+      }
+
+      const { header, events } = await readSessionLog(file);
+      // Replayed costs fall back to the built-in prices
+      let priceError: string | null = null;
+      try {
+        await loadLlmCostOverrides();
+      } catch (error) {
+        priceError = error instanceof Error ? error.message : String(error);
+      }
+
+      terminalUI = new TerminalUI(
+        'Replay',
+        header.locationId,
+        0 as UserId,
+        locationStorage,
+        agentStorage,
+        { readOnly: true }
+      );
+      for (const agent of header.agents) {
+        terminalUI.addAgentInfo(agent.id as AgentId, agent.name);
+      }
+      terminalUI.addMessage(
+        'Replay',
+        `Replaying ${events.length} events from ${header.location} at ${speed}x`
+      );
+      terminalUI.addMessage(
+        'Replay',
+        'Space: pause/resume | +/-: speed | N: step while paused | Ctrl+C: exit'
+      );
+      if (priceError) {
+        terminalUI.addMessage(
+          'Replay',
+          `Using built-in LLM prices: ${priceError}`
+        );
+      }
+
+      await new SessionReplayer(terminalUI, events, speed, maxGap * 1000).run();
+    });
+
+  program
+    .command('mcp-server')
+    .description(
+      'Run a local mock of the Polymarket MCP server with an in-memory order book'
+    )
+    .argument(
+      '[fixture]',
+      'markets and account fixture (default: models/mcp/polymarket.json)'
+    )
+    .option(
+      '-p, --port <port>',
+      'port to listen on',
+      `${DEFAULT_MOCK_MCP_PORT}`
+    )
+    .action(async (fixture: string | undefined, options: McpServerOptions) => {
+      const port = Number(options.port);
+      if (!Number.isInteger(port) || port <= 0) {
+        console.error('Port must be a positive integer');
+        process.exit(1);
+      }
+
+      const fixturePath = fixture ?? MockPolymarket.defaultFixturePath();
+      let exchange: MockPolymarket;
+      try {
+        exchange = await MockPolymarket.load(fixturePath);
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+
+      const server = new MockMcpServer(exchange, (tool, args) => {
+        console.log(
+          `[${new Date().toISOString()}] ${tool} ${JSON.stringify(args)}`
+        );
+      });
+      try {
+        await server.start(port);
+      } catch (error) {
+        console.error(
+          `Could not listen on port ${port}: ${error instanceof Error ? error.message : String(error)}`
+        );
+        process.exit(1);
+      }
+      console.log(
+        `Mock Polymarket MCP server with ${exchange.marketCount} market(s) from ${fixturePath}`
+      );
+      console.log(`Listening on http://localhost:${port} (Ctrl+C to stop)`);
     });
 
   // Remove the double dashes from the arguments (platform specific)
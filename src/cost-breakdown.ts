@@ -0,0 +1,84 @@
+import { LlmResponseBase } from '@little-samo/samo-ai';
+
+export type LlmCallType = 'llmGenerate' | 'llmUseTools';
+
+/**
+ * Accumulated token usage and cost for one breakdown key
+ */
+export interface CostBreakdownRow {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  cacheCreationTokens: number;
+  outputTokens: number;
+  cost: number;
+  /** Calls for which no price entry was found */
+  unpricedCalls: number;
+}
+
+/**
+ * Breaks token usage and cost down per agent, per model and per call type
+ */
+export class CostBreakdown {
+  private readonly byAgent = new Map<string, CostBreakdownRow>();
+  private readonly byModel = new Map<string, CostBreakdownRow>();
+  private readonly byCallType = new Map<string, CostBreakdownRow>();
+
+  public add(
+    agentName: string,
+    callType: LlmCallType,
+    response: LlmResponseBase,
+    cost: number | undefined
+  ) {
+    const modelKey = `${response.platform}/${response.model}${response.thinking ? ' (thinking)' : ''}`;
+    for (const [map, key] of [
+      [this.byAgent, agentName],
+      [this.byModel, modelKey],
+      [this.byCallType, callType],
+    ] as const) {
+      let row = map.get(key);
+      if (!row) {
+        row = {
+          key,
+          calls: 0,
+          inputTokens: 0,
+          cachedInputTokens: 0,
+          cacheCreationTokens: 0,
+          outputTokens: 0,
+          cost: 0,
+          unpricedCalls: 0,
+        };
+        map.set(key, row);
+      }
+      row.calls++;
+      row.inputTokens += response.inputTokens || 0;
+      row.cachedInputTokens += response.cachedInputTokens || 0;
+      row.cacheCreationTokens += response.cacheCreationTokens || 0;
+      row.outputTokens += response.outputTokens || 0;
+      if (cost !== undefined) {
+        row.cost += cost;
+      } else {
+        row.unpricedCalls++;
+      }
+    }
+  }
+
+  public get agents(): CostBreakdownRow[] {
+    return CostBreakdown.sortByCost(this.byAgent);
+  }
+
+  public get models(): CostBreakdownRow[] {
+    return CostBreakdown.sortByCost(this.byModel);
+  }
+
+  public get callTypes(): CostBreakdownRow[] {
+    return CostBreakdown.sortByCost(this.byCallType);
+  }
+
+  private static sortByCost(
+    map: Map<string, CostBreakdownRow>
+  ): CostBreakdownRow[] {
+    return Array.from(map.values()).sort((a, b) => b.cost - a.cost);
+  }
+}
@@ -0,0 +1,286 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+import {
+  Entity,
+  Location,
+  LocationId,
+  LlmResponseBase,
+} from '@little-samo/samo-ai';
+
+import { LlmCallType } from './cost-breakdown';
+import { getLlmCost } from './llm-cost';
+import { getLlmUsageDetails } from './llm-usage';
+
+/**
+ * One LLM response as persisted in the ledger.
+ * `cost` is null when no price entry matched the model.
+ */
+export interface CostLedgerEntry {
+  time: string;
+  agent: string;
+  location: string;
+  locationId: LocationId;
+  platform: string;
+  model: string;
+  callType: LlmCallType;
+  inputTokens: number;
+  cachedInputTokens: number;
+  cacheCreationTokens: number;
+  outputTokens: number;
+  cost: number | null;
+}
+
+export type CostGroupBy = 'day' | 'agent' | 'location' | 'model';
+
+export const COST_GROUP_BYS: CostGroupBy[] = [
+  'day',
+  'agent',
+  'location',
+  'model',
+];
+
+export interface CostSummaryRow {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  unpricedCalls: number;
+}
+
+export interface CostLedgerFilter {
+  since?: Date;
+  until?: Date;
+  location?: string;
+  agent?: string;
+}
+
+/**
+ * Append-only JSONL ledger of every LLM response and its cost,
+ * kept under states/ so totals survive restarts
+ */
+export class CostLedger {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  public constructor(
+    public readonly filePath: string = CostLedger.defaultPath()
+  ) {}
+
+  public static defaultPath(): string {
+    return path.join(process.cwd(), 'states', 'costs', 'ledger.jsonl');
+  }
+
+  /**
+   * Appends LLM responses of the location to the ledger
+   */
+  public setLocationEventHandlers(
+    location: Location,
+    locationKey: string,
+    locationId: LocationId
+  ) {
+    const handle =
+      (callType: LlmCallType) =>
+      async (entity: Entity, response: LlmResponseBase) => {
+        const time = new Date().toISOString();
+        const usage = await getLlmUsageDetails(response);
+        this.append({
+          time,
+          agent: entity.name,
+          location: locationKey,
+          locationId,
+          platform: String(response.platform),
+          model: response.model,
+          callType,
+          inputTokens: response.inputTokens || 0,
+          cachedInputTokens: response.cachedInputTokens || 0,
+          cacheCreationTokens: response.cacheCreationTokens || 0,
+          outputTokens: response.outputTokens || 0,
+          cost: getLlmCost(response, usage) ?? null,
+        });
+      };
+
+    location.on('llmGenerate', handle('llmGenerate'));
+    location.on('llmUseTools', handle('llmUseTools'));
+  }
+
+  public append(entry: CostLedgerEntry) {
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, JSON.stringify(entry) + '\n');
+      })
+      .catch((error) => {
+        console.error(`Cost ledger write failed: ${error}`);
+      });
+  }
+
+  /**
+   * Waits until all queued entries are written
+   */
+  public async flush() {
+    await this.writeQueue;
+  }
+
+  /**
+   * Reads all ledger entries matching the filter.
+   * Returns an empty list when the ledger does not exist yet.
+   */
+  public async readEntries(
+    filter: CostLedgerFilter = {}
+  ): Promise<CostLedgerEntry[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: CostLedgerEntry[] = [];
+    for (const line of raw.split(/\r?\n/)) {
+      if (!line.trim()) continue;
+      let entry: CostLedgerEntry;
+      try {
+        entry = JSON.parse(line) as CostLedgerEntry;
+      } catch (_e) {
+        // Skip lines truncated by an interrupted write
+        continue;
+      }
+      const time = new Date(entry.time);
+      if (filter.since && time < filter.since) continue;
+      if (filter.until && time >= filter.until) continue;
+      if (filter.location && entry.location !== filter.location) continue;
+      if (filter.agent && entry.agent !== filter.agent) continue;
+      entries.push(entry);
+    }
+    return entries;
+  }
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in local time, the time zone `--since` and
+ * `--until` are read in
+ */
+function formatLocalDay(date: Date): string {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+}
+
+function getGroupKey(entry: CostLedgerEntry, groupBy: CostGroupBy): string {
+  switch (groupBy) {
+    case 'day':
+      return formatLocalDay(new Date(entry.time));
+    case 'agent':
+      return entry.agent;
+    case 'location':
+      return entry.location;
+    case 'model':
+      return `${entry.platform}/${entry.model}`;
+  }
+}
+
+/**
+ * Totals ledger entries per group.
+ * Days are sorted chronologically, all other groups by cost.
+ */
+export function summarizeCosts(
+  entries: CostLedgerEntry[],
+  groupBy: CostGroupBy
+): CostSummaryRow[] {
+  const rows = new Map<string, CostSummaryRow>();
+  for (const entry of entries) {
+    const key = getGroupKey(entry, groupBy);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        key,
+        calls: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cost: 0,
+        unpricedCalls: 0,
+      };
+      rows.set(key, row);
+    }
+    row.calls++;
+    row.inputTokens += entry.inputTokens;
+    row.outputTokens += entry.outputTokens;
+    if (entry.cost === null) {
+      row.unpricedCalls++;
+    } else {
+      row.cost += entry.cost;
+    }
+  }
+
+  const sorted = Array.from(rows.values());
+  if (groupBy === 'day') {
+    sorted.sort((a, b) => a.key.localeCompare(b.key));
+  } else {
+    sorted.sort((a, b) => b.cost - a.cost);
+  }
+  return sorted;
+}
+
+/**
+ * Parses an ISO date or a relative duration like `7d` into a date.
+ * Days start at local midnight, matching the days costs are grouped by.
+ */
+export function parseLedgerDate(value: string): Date {
+  const relative = /^(\d+)d$/.exec(value);
+  if (relative) {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() - Number(relative[1]) + 1);
+    return date;
+  }
+  // Date-only ISO strings would otherwise be read as UTC midnight
+  const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (day) {
+    return new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]));
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Formats summary rows as a plain-text table
+ */
+export function formatCostSummary(
+  title: string,
+  rows: CostSummaryRow[]
+): string {
+  const keyWidth = Math.max(10, ...rows.map((row) => row.key.length));
+  const header =
+    'Key'.padEnd(keyWidth) +
+    'Calls'.padStart(8) +
+    'Input'.padStart(14) +
+    'Output'.padStart(14) +
+    'Cost'.padStart(14);
+
+  const lines = [title, header, '-'.repeat(header.length)];
+  let total = 0;
+  for (const row of rows) {
+    total += row.cost;
+    lines.push(
+      row.key.padEnd(keyWidth) +
+        String(row.calls).padStart(8) +
+        String(row.inputTokens).padStart(14) +
+        String(row.outputTokens).padStart(14) +
+        `$${row.cost.toFixed(4)}${row.unpricedCalls > 0 ? '?' : ''}`.padStart(
+          14
+        )
+    );
+  }
+  lines.push('-'.repeat(header.length));
+  lines.push(
+    'Total'.padEnd(keyWidth + 36) + `$${total.toFixed(4)}`.padStart(14)
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,13 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+import YAML from 'yaml';
+
+/**
+ * Reads and parses a JSON or YAML file, picking the parser by extension
+ */
+export async function readDataFile<T>(filePath: string): Promise<T> {
+  const raw = await fs.readFile(filePath, 'utf-8');
+  const ext = path.extname(filePath).toLowerCase();
+  return (ext === '.json' ? JSON.parse(raw) : YAML.parse(raw)) as T;
+}
@@ -0,0 +1,44 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+/**
+ * The user's editor: $VISUAL, then $EDITOR, then a platform default
+ */
+export function getEditorCommand(): string {
+  return (
+    process.env.VISUAL ||
+    process.env.EDITOR ||
+    (process.platform === 'win32' ? 'notepad' : 'vi')
+  );
+}
+
+/**
+ * Opens `text` in the user's editor and returns the saved text, or null
+ * when the editor exits with an error. Resolves once the editor exits, so
+ * the caller must release the terminal first and leave it alone meanwhile.
+ */
+export async function editInExternalEditor(
+  text: string,
+  fileName: string
+): Promise<string | null> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'samo-ai-'));
+  const filePath = path.join(dir, fileName.replace(/[^\w.-]+/g, '_'));
+  try {
+    await fs.writeFile(filePath, text);
+    // Run through the shell so commands like `code --wait` work
+    const succeeded = await new Promise<boolean>((resolve) => {
+      const child = spawn(`${getEditorCommand()} "${filePath}"`, {
+        stdio: 'inherit',
+        shell: true,
+      });
+      child.on('error', () => resolve(false));
+      child.on('exit', (code) => resolve(code === 0));
+    });
+    if (!succeeded) return null;
+    return await fs.readFile(filePath, 'utf-8');
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
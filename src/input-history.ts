@@ -0,0 +1,127 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Submitted input lines of one location, persisted under states/history
+ * so they can be recalled across sessions
+ */
+export class InputHistory {
+  private writeQueue: Promise<void> = Promise.resolve();
+  /** Position while browsing with UP/DOWN; equals entries.length when not browsing */
+  private cursor: number;
+  private draft = '';
+
+  private constructor(
+    public readonly filePath: string,
+    private entries: string[],
+    private readonly maxEntries: number
+  ) {
+    this.cursor = entries.length;
+  }
+
+  public static defaultPath(location: string): string {
+    return path.join(process.cwd(), 'states', 'history', `${location}.jsonl`);
+  }
+
+  /**
+   * Loads the history file, keeping the newest `maxEntries` lines.
+   * A missing file starts an empty history.
+   */
+  public static async load(
+    filePath: string,
+    maxEntries = 1000
+  ): Promise<InputHistory> {
+    let raw = '';
+    try {
+      raw = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const entries: string[] = [];
+    for (const line of raw.split(/\r?\n/)) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as string);
+      } catch (_e) {
+        // Skip lines truncated by an interrupted write
+      }
+    }
+    return new InputHistory(filePath, entries.slice(-maxEntries), maxEntries);
+  }
+
+  public get size(): number {
+    return this.entries.length;
+  }
+
+  public get(index: number): string | undefined {
+    return this.entries[index];
+  }
+
+  /**
+   * Records a submitted line, skipping repeats of the previous line
+   */
+  public add(text: string) {
+    this.cursor = this.entries.length;
+    if (this.entries[this.entries.length - 1] === text) return;
+
+    this.entries.push(text);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift();
+    }
+    this.cursor = this.entries.length;
+
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, JSON.stringify(text) + '\n');
+      })
+      .catch((error) => {
+        console.error(`Input history write failed: ${error}`);
+      });
+  }
+
+  /**
+   * Steps to the previous (older) entry. `current` is kept as the draft
+   * when browsing starts. Returns undefined at the oldest entry.
+   */
+  public previous(current: string): string | undefined {
+    if (this.cursor === 0) return undefined;
+    if (this.cursor === this.entries.length) {
+      this.draft = current;
+    }
+    this.cursor--;
+    return this.entries[this.cursor];
+  }
+
+  /**
+   * Steps to the next (newer) entry, returning the draft after the newest.
+   * Returns undefined when not browsing.
+   */
+  public next(): string | undefined {
+    if (this.cursor >= this.entries.length) return undefined;
+    this.cursor++;
+    return this.cursor === this.entries.length
+      ? this.draft
+      : this.entries[this.cursor];
+  }
+
+  /**
+   * Finds the newest entry before `before` containing the query
+   * (case-insensitive). Returns its index or null.
+   */
+  public search(query: string, before = this.entries.length): number | null {
+    const needle = query.toLowerCase();
+    for (let i = Math.min(before, this.entries.length) - 1; i >= 0; i--) {
+      if (this.entries[i].toLowerCase().includes(needle)) return i;
+    }
+    return null;
+  }
+
+  /**
+   * Waits until all queued entries are written
+   */
+  public async flush() {
+    await this.writeQueue;
+  }
+}
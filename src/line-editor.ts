@@ -0,0 +1,200 @@
+import { stringWidth } from 'terminal-kit';
+
+/**
+ * The input text broken into display rows for a given width
+ */
+export interface LineEditorLayout {
+  rows: string[];
+  cursorRow: number;
+  /** Display column of the cursor within its row */
+  cursorColumn: number;
+}
+
+/**
+ * Multi-line text buffer with a cursor, used for the chat input area.
+ * Positions are indexes into an array of characters so surrogate pairs
+ * (e.g. emoji) are never split.
+ */
+export class LineEditor {
+  private chars: string[] = [];
+  private cursor = 0;
+
+  public get text(): string {
+    return this.chars.join('');
+  }
+
+  public get isEmpty(): boolean {
+    return this.chars.length === 0;
+  }
+
+  public get isMultiline(): boolean {
+    return this.chars.includes('\n');
+  }
+
+  /**
+   * Replaces the text and moves the cursor to its end
+   */
+  public setText(text: string) {
+    this.chars = Array.from(text);
+    this.cursor = this.chars.length;
+  }
+
+  public clear() {
+    this.setText('');
+  }
+
+  public insert(text: string) {
+    const inserted = Array.from(text.replace(/\r\n?/g, '\n'));
+    this.chars.splice(this.cursor, 0, ...inserted);
+    this.cursor += inserted.length;
+  }
+
+  public backspace() {
+    if (this.cursor === 0) return;
+    this.chars.splice(this.cursor - 1, 1);
+    this.cursor--;
+  }
+
+  public delete() {
+    this.chars.splice(this.cursor, 1);
+  }
+
+  /**
+   * Deletes the word before the cursor, including trailing whitespace
+   */
+  public deleteWordBackward() {
+    let start = this.cursor;
+    while (start > 0 && /\s/.test(this.chars[start - 1])) start--;
+    while (start > 0 && !/\s/.test(this.chars[start - 1])) start--;
+    this.chars.splice(start, this.cursor - start);
+    this.cursor = start;
+  }
+
+  public left() {
+    this.cursor = Math.max(0, this.cursor - 1);
+  }
+
+  public right() {
+    this.cursor = Math.min(this.chars.length, this.cursor + 1);
+  }
+
+  public wordLeft() {
+    while (this.cursor > 0 && /\s/.test(this.chars[this.cursor - 1])) {
+      this.cursor--;
+    }
+    while (this.cursor > 0 && !/\s/.test(this.chars[this.cursor - 1])) {
+      this.cursor--;
+    }
+  }
+
+  public wordRight() {
+    while (
+      this.cursor < this.chars.length &&
+      /\s/.test(this.chars[this.cursor])
+    ) {
+      this.cursor++;
+    }
+    while (
+      this.cursor < this.chars.length &&
+      !/\s/.test(this.chars[this.cursor])
+    ) {
+      this.cursor++;
+    }
+  }
+
+  /**
+   * Moves to the start of the current line
+   */
+  public home() {
+    this.cursor = this.lineStart(this.cursor);
+  }
+
+  /**
+   * Moves to the end of the current line
+   */
+  public end() {
+    this.cursor = this.lineEnd(this.cursor);
+  }
+
+  /**
+   * Moves to the previous line, keeping the column where possible.
+   * Returns false when the cursor is already on the first line.
+   */
+  public up(): boolean {
+    const start = this.lineStart(this.cursor);
+    if (start === 0) return false;
+    const column = this.cursor - start;
+    const previousStart = this.lineStart(start - 1);
+    this.cursor = Math.min(previousStart + column, start - 1);
+    return true;
+  }
+
+  /**
+   * Moves to the next line, keeping the column where possible.
+   * Returns false when the cursor is already on the last line.
+   */
+  public down(): boolean {
+    const end = this.lineEnd(this.cursor);
+    if (end === this.chars.length) return false;
+    const column = this.cursor - this.lineStart(this.cursor);
+    this.cursor = Math.min(end + 1 + column, this.lineEnd(end + 1));
+    return true;
+  }
+
+  /**
+   * Wraps the text into rows of at most `width` display columns.
+   * Explicit newlines always start a new row.
+   */
+  public layout(width: number): LineEditorLayout {
+    const rows: string[] = [];
+    let row = '';
+    let rowWidth = 0;
+    let cursorRow = 0;
+    let cursorColumn = 0;
+
+    for (let i = 0; i <= this.chars.length; i++) {
+      const char = this.chars[i];
+      const charWidth = char && char !== '\n' ? stringWidth(char) : 0;
+      if (charWidth > 0 && rowWidth + charWidth > width) {
+        rows.push(row);
+        row = '';
+        rowWidth = 0;
+      }
+      if (i === this.cursor) {
+        cursorRow = rows.length;
+        cursorColumn = rowWidth;
+      }
+      if (char === undefined) break;
+      if (char === '\n') {
+        rows.push(row);
+        row = '';
+        rowWidth = 0;
+        continue;
+      }
+      row += char;
+      rowWidth += charWidth;
+    }
+    rows.push(row);
+
+    // Keep the cursor on screen when it sits right after a full row
+    if (cursorColumn >= width) {
+      cursorRow++;
+      cursorColumn = 0;
+      if (cursorRow >= rows.length) rows.push('');
+    }
+
+    return { rows, cursorRow, cursorColumn };
+  }
+
+  private lineStart(position: number): number {
+    let start = position;
+    while (start > 0 && this.chars[start - 1] !== '\n') start--;
+    return start;
+  }
+
+  private lineEnd(position: number): number {
+    let end = position;
+    while (end < this.chars.length && this.chars[end] !== '\n') end++;
+    return end;
+  }
+}
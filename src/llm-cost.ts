@@ -1,14 +1,52 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
 import { LlmPlatform, LlmResponseBase } from '@little-samo/samo-ai';
 
-export interface LlmCostPerMillionTokens {
-  platform: LlmPlatform;
-  model: string;
-  thinking?: boolean;
+import { readDataFile } from './data-file';
+import { LlmUsageDetails } from './llm-usage';
+
+export interface LlmCostRates {
   input: number;
   cachedInput?: number;
   cacheCreation?: number;
   output: number;
   imageOutput?: number;
+  /** Rate for reasoning tokens; without it they are billed as output */
+  reasoningOutput?: number;
+}
+
+/**
+ * Rates that replace the base rates once the prompt exceeds a size,
+ * e.g. long-context pricing above 200k input tokens
+ */
+export interface LlmCostTier extends Partial<LlmCostRates> {
+  aboveInputTokens: number;
+}
+
+/**
+ * How an entry's model (and aliases) is compared with a response's model:
+ * - `prefix` (default): the response model starts with it
+ * - `exact`: the response model equals it
+ * - `regex`: it is a regular expression tested against the response model
+ */
+export type LlmCostMatch = 'prefix' | 'exact' | 'regex';
+
+export interface LlmCostPerMillionTokens extends LlmCostRates {
+  platform: LlmPlatform;
+  model: string;
+  match?: LlmCostMatch;
+  /** Other model names billed at the same price */
+  aliases?: string[];
+  thinking?: boolean;
+  tiers?: LlmCostTier[];
+  /** Price multiplier for calls at batch prices, e.g. 0.5 */
+  batch?: number;
+  /** ISO date from which this price applies (inclusive) */
+  effectiveFrom?: string;
+  /** ISO date until which this price applies (exclusive) */
+  effectiveUntil?: string;
 }
 
 export const LlmCosts: LlmCostPerMillionTokens[] = [
@@ -164,6 +202,15 @@ export const LlmCosts: LlmCostPerMillionTokens[] = [
     cacheCreation: 3.75,
     cachedInput: 0.3,
     output: 15,
+    tiers: [
+      {
+        aboveInputTokens: 200000,
+        input: 6,
+        cacheCreation: 7.5,
+        cachedInput: 0.6,
+        output: 22.5,
+      },
+    ],
   },
   {
     platform: LlmPlatform.ANTHROPIC,
@@ -180,6 +227,15 @@ export const LlmCosts: LlmCostPerMillionTokens[] = [
     cacheCreation: 3.75,
     cachedInput: 0.3,
     output: 15,
+    tiers: [
+      {
+        aboveInputTokens: 200000,
+        input: 6,
+        cacheCreation: 7.5,
+        cachedInput: 0.6,
+        output: 22.5,
+      },
+    ],
   },
   {
     platform: LlmPlatform.ANTHROPIC,
@@ -212,6 +268,15 @@ export const LlmCosts: LlmCostPerMillionTokens[] = [
     cacheCreation: 3.75,
     cachedInput: 0.3,
     output: 15,
+    tiers: [
+      {
+        aboveInputTokens: 200000,
+        input: 6,
+        cacheCreation: 7.5,
+        cachedInput: 0.6,
+        output: 22.5,
+      },
+    ],
   },
   {
     platform: LlmPlatform.ANTHROPIC,
@@ -262,6 +327,7 @@ export const LlmCosts: LlmCostPerMillionTokens[] = [
     input: 2,
     cachedInput: 0.5,
     output: 12,
+    tiers: [{ aboveInputTokens: 200000, input: 4, output: 18 }],
   },
   {
     platform: LlmPlatform.GEMINI,
@@ -269,6 +335,7 @@ export const LlmCosts: LlmCostPerMillionTokens[] = [
     input: 2,
     cachedInput: 0.5,
     output: 12,
+    tiers: [{ aboveInputTokens: 200000, input: 4, output: 18 }],
   },
   {
     platform: LlmPlatform.GEMINI,
@@ -290,6 +357,9 @@ export const LlmCosts: LlmCostPerMillionTokens[] = [
     input: 1.25,
     cachedInput: 0.31,
     output: 10,
+    tiers: [
+      { aboveInputTokens: 200000, input: 2.5, cachedInput: 0.625, output: 15 },
+    ],
   },
   {
     platform: LlmPlatform.GEMINI,
@@ -425,39 +495,356 @@ export const LlmCosts: LlmCostPerMillionTokens[] = [
   },
 ];
 
-export function getLlmCost(response: LlmResponseBase): number | undefined {
-  const costConfig = LlmCosts.find(
-    (config) =>
-      config.platform === response.platform &&
-      response.model.startsWith(config.model) &&
-      (!config.thinking || config.thinking === response.thinking)
-  );
+const PRICE_FILE_NAMES = ['llm-costs.json', 'llm-costs.yaml', 'llm-costs.yml'];
+
+let activeLlmCosts: LlmCostPerMillionTokens[] = LlmCosts;
+
+/**
+ * Price files in merge order: user-level (~/.samo-ai) first, then the
+ * project directory, so project prices win over user prices
+ */
+export function getLlmCostOverridePaths(): string[] {
+  const dirs = [path.join(os.homedir(), '.samo-ai'), process.cwd()];
+  const paths: string[] = [];
+  for (const dir of dirs) {
+    for (const name of PRICE_FILE_NAMES) {
+      const filePath = path.join(dir, name);
+      if (fs.existsSync(filePath)) {
+        paths.push(filePath);
+      }
+    }
+  }
+  return paths;
+}
+
+function getLlmCostKey(config: LlmCostPerMillionTokens): string {
+  return `${config.platform}:${config.model}:${config.thinking ? 'thinking' : ''}:${config.effectiveFrom ?? ''}`;
+}
+
+const OPTIONAL_RATE_FIELDS = [
+  'cachedInput',
+  'cacheCreation',
+  'imageOutput',
+  'reasoningOutput',
+];
+
+/**
+ * Validates a price file's entries and returns a list of problems
+ */
+export function validateLlmCosts(entries: unknown): string[] {
+  if (!Array.isArray(entries)) {
+    return ['expected an array of price entries'];
+  }
+
+  const platforms = Object.values(LlmPlatform) as string[];
+  const errors: string[] = [];
+  entries.forEach((entry, index) => {
+    const label = `entry ${index + 1}`;
+    if (!entry || typeof entry !== 'object') {
+      errors.push(`${label}: expected an object`);
+      return;
+    }
+    const config = entry as Record<string, unknown>;
+    if (!platforms.includes(config.platform as string)) {
+      errors.push(`${label}: platform must be one of ${platforms.join(', ')}`);
+    }
+    if (typeof config.model !== 'string' || config.model.length === 0) {
+      errors.push(`${label}: model must be a non-empty string`);
+    }
+    for (const field of ['input', 'output']) {
+      if (typeof config[field] !== 'number' || config[field] < 0) {
+        errors.push(`${label}: ${field} must be a non-negative number`);
+      }
+    }
+    for (const field of [...OPTIONAL_RATE_FIELDS, 'batch']) {
+      if (
+        config[field] !== undefined &&
+        (typeof config[field] !== 'number' || config[field] < 0)
+      ) {
+        errors.push(`${label}: ${field} must be a non-negative number`);
+      }
+    }
+    for (const field of ['effectiveFrom', 'effectiveUntil']) {
+      if (
+        config[field] !== undefined &&
+        (typeof config[field] !== 'string' ||
+          isNaN(new Date(config[field]).getTime()))
+      ) {
+        errors.push(`${label}: ${field} must be an ISO date`);
+      }
+    }
+    if (config.tiers !== undefined) {
+      if (!Array.isArray(config.tiers)) {
+        errors.push(`${label}: tiers must be an array`);
+      } else {
+        config.tiers.forEach((tier: Record<string, unknown>, tierIndex) => {
+          if (
+            typeof tier?.aboveInputTokens !== 'number' ||
+            tier.aboveInputTokens < 0
+          ) {
+            errors.push(
+              `${label}: tier ${tierIndex + 1} needs a non-negative aboveInputTokens`
+            );
+          }
+          for (const field of ['input', 'output', ...OPTIONAL_RATE_FIELDS]) {
+            if (
+              tier?.[field] !== undefined &&
+              (typeof tier[field] !== 'number' || tier[field] < 0)
+            ) {
+              errors.push(
+                `${label}: tier ${tierIndex + 1} ${field} must be a non-negative number`
+              );
+            }
+          }
+        });
+      }
+    }
+    if (
+      config.match !== undefined &&
+      !['prefix', 'exact', 'regex'].includes(config.match as string)
+    ) {
+      errors.push(`${label}: match must be one of prefix, exact, regex`);
+    }
+    if (
+      config.aliases !== undefined &&
+      (!Array.isArray(config.aliases) ||
+        config.aliases.some((alias) => typeof alias !== 'string'))
+    ) {
+      errors.push(`${label}: aliases must be an array of strings`);
+    }
+    if (config.match === 'regex') {
+      const patterns = [
+        config.model,
+        ...(Array.isArray(config.aliases) ? config.aliases : []),
+      ];
+      for (const pattern of patterns) {
+        try {
+          new RegExp(pattern as string);
+        } catch (_e) {
+          errors.push(`${label}: invalid regular expression ${pattern}`);
+        }
+      }
+    }
+    if (config.thinking !== undefined && typeof config.thinking !== 'boolean') {
+      errors.push(`${label}: thinking must be a boolean`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Merges price entries over a base table. Entries for an existing
+ * platform/model/thinking/effectiveFrom combination replace it;
+ * new entries are added. Order does not affect matching.
+ */
+export function mergeLlmCosts(
+  base: LlmCostPerMillionTokens[],
+  overrides: LlmCostPerMillionTokens[]
+): LlmCostPerMillionTokens[] {
+  const merged = [...base];
+  for (const override of overrides) {
+    const key = getLlmCostKey(override);
+    const index = merged.findIndex((config) => getLlmCostKey(config) === key);
+    if (index >= 0) {
+      merged[index] = override;
+    } else {
+      merged.push(override);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Loads user-level and project-level price files and merges them over
+ * the built-in table. Throws if any file is invalid.
+ * Files may contain an array of entries or an object with a `prices` array.
+ */
+export async function loadLlmCostOverrides(
+  filePaths: string[] = getLlmCostOverridePaths()
+): Promise<string[]> {
+  let costs = LlmCosts;
+  for (const filePath of filePaths) {
+    const data = await readDataFile<unknown>(filePath);
+    const entries =
+      data && typeof data === 'object' && 'prices' in data
+        ? (data as { prices: unknown }).prices
+        : data;
+    const errors = validateLlmCosts(entries);
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid price file ${filePath}:\n  ${errors.join('\n  ')}`
+      );
+    }
+    costs = mergeLlmCosts(costs, entries as LlmCostPerMillionTokens[]);
+  }
+  activeLlmCosts = costs;
+  return filePaths;
+}
+
+export interface LlmCostMatchResult {
+  config: LlmCostPerMillionTokens;
+  match: LlmCostMatch;
+  /** The model name or alias that matched */
+  matchedName: string;
+}
+
+/**
+ * Scores how well a model name matches an entry. Higher is better:
+ * exact matches beat prefixes, longer prefixes beat shorter ones,
+ * and regular expressions only win when nothing else matches.
+ */
+function scoreLlmCostMatch(
+  config: LlmCostPerMillionTokens,
+  model: string
+): { score: number; matchedName: string } | null {
+  const match = config.match ?? 'prefix';
+  let best: { score: number; matchedName: string } | null = null;
+  for (const name of [config.model, ...(config.aliases ?? [])]) {
+    let score: number | null = null;
+    if (model === name && match !== 'regex') {
+      score = 3_000_000;
+    } else if (match === 'prefix' && model.startsWith(name)) {
+      score = 2_000_000 + name.length;
+    } else if (match === 'regex' && new RegExp(name).test(model)) {
+      score = 1_000_000;
+    }
+    if (score !== null && (!best || score > best.score)) {
+      best = { score, matchedName: name };
+    }
+  }
+  return best;
+}
+
+/**
+ * Resolves the price entry for a platform/model on a given date.
+ *
+ * Among entries whose model or aliases match, the best match wins
+ * (exact, then longest prefix, then regex). Ties prefer entries that
+ * are specific to thinking mode when the call used thinking, then the
+ * most recent effectiveFrom date.
+ */
+export function resolveLlmCost(
+  platform: LlmPlatform,
+  model: string,
+  thinking: boolean | undefined,
+  date: Date = new Date()
+): LlmCostMatchResult | undefined {
+  let best:
+    { result: LlmCostMatchResult; score: number; from: number } | undefined;
+
+  for (const config of activeLlmCosts) {
+    if (config.platform !== platform) continue;
+    if (config.thinking && !thinking) continue;
+    if (config.effectiveFrom && new Date(config.effectiveFrom) > date) continue;
+    if (config.effectiveUntil && date >= new Date(config.effectiveUntil)) {
+      continue;
+    }
+
+    const scored = scoreLlmCostMatch(config, model);
+    if (!scored) continue;
+
+    const score = scored.score + (config.thinking ? 0.5 : 0);
+    const from = config.effectiveFrom
+      ? new Date(config.effectiveFrom).getTime()
+      : 0;
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score && from > best.from)
+    ) {
+      best = {
+        result: {
+          config,
+          match: config.match ?? 'prefix',
+          matchedName: scored.matchedName,
+        },
+        score,
+        from,
+      };
+    }
+  }
+
+  return best?.result;
+}
+
+/**
+ * Finds the price entry that applies to a response on a given date, if any
+ */
+export function findLlmCostConfig(
+  response: LlmResponseBase,
+  date: Date = new Date()
+): LlmCostPerMillionTokens | undefined {
+  return resolveLlmCost(
+    response.platform,
+    response.model,
+    response.thinking,
+    date
+  )?.config;
+}
+
+/**
+ * Resolves the rates for a prompt size, applying the highest matching tier
+ */
+export function getLlmCostRates(
+  config: LlmCostPerMillionTokens,
+  inputTokens: number
+): LlmCostRates {
+  const tier = (config.tiers ?? [])
+    .filter((t) => inputTokens > t.aboveInputTokens)
+    .sort((a, b) => b.aboveInputTokens - a.aboveInputTokens)[0];
+  if (!tier) {
+    return config;
+  }
+  const { aboveInputTokens: _aboveInputTokens, ...tierRates } = tier;
+  return { ...config, ...tierRates };
+}
+
+/**
+ * Prices a response. `usage` adds what the provider reported beyond
+ * LlmResponseBase: reasoning tokens and whether batch prices applied.
+ */
+export function getLlmCost(
+  response: LlmResponseBase,
+  usage: LlmUsageDetails = {}
+): number | undefined {
+  const costConfig = findLlmCostConfig(response);
 
   if (!costConfig) {
     return undefined;
   }
 
+  const rates = getLlmCostRates(costConfig, response.inputTokens);
+
   let inputTokens = response.inputTokens;
   let inputCost = 0;
-  if (costConfig.cachedInput && response.cachedInputTokens) {
-    inputCost += costConfig.cachedInput * response.cachedInputTokens;
+  if (rates.cachedInput && response.cachedInputTokens) {
+    inputCost += rates.cachedInput * response.cachedInputTokens;
     inputTokens -= response.cachedInputTokens;
   }
-  if (costConfig.cacheCreation && response.cacheCreationTokens) {
-    inputCost += costConfig.cacheCreation * response.cacheCreationTokens;
+  if (rates.cacheCreation && response.cacheCreationTokens) {
+    inputCost += rates.cacheCreation * response.cacheCreationTokens;
     inputTokens -= response.cacheCreationTokens;
   }
-  inputCost += costConfig.input * inputTokens;
+  inputCost += rates.input * inputTokens;
   inputCost /= 1000000;
 
   let outputTokens = response.outputTokens;
   let outputCost = 0;
-  if (costConfig.imageOutput && response.imageOutputTokens) {
+  if (rates.imageOutput && response.imageOutputTokens) {
     outputTokens -= response.imageOutputTokens;
+    outputCost += (rates.imageOutput * response.imageOutputTokens) / 1000000;
+  }
+  const reasoningTokens = usage.reasoningTokens ?? 0;
+  if (reasoningTokens > 0) {
+    if (usage.reasoningInOutput) {
+      outputTokens -= Math.min(reasoningTokens, outputTokens);
+    }
     outputCost +=
-      (costConfig.imageOutput * response.imageOutputTokens) / 1000000;
+      ((rates.reasoningOutput ?? rates.output) * reasoningTokens) / 1000000;
   }
-  outputCost += (costConfig.output * outputTokens) / 1000000;
+  outputCost += (rates.output * outputTokens) / 1000000;
 
-  return inputCost + outputCost;
+  const multiplier =
+    usage.batch && costConfig.batch !== undefined ? costConfig.batch : 1;
+  return (inputCost + outputCost) * multiplier;
 }
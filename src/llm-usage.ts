@@ -0,0 +1,161 @@
+import { LlmResponseBase } from '@little-samo/samo-ai';
+
+import { getFetchUrl } from './mcp-dry-run';
+
+/**
+ * Usage details some providers report that LlmResponseBase does not carry
+ */
+export interface LlmUsageDetails {
+  /** Reasoning (thinking) tokens of the call */
+  reasoningTokens?: number;
+  /** Whether `reasoningTokens` are already counted in the output tokens */
+  reasoningInOutput?: boolean;
+  /** Whether the call ran at batch prices, e.g. OpenAI's flex tier */
+  batch?: boolean;
+}
+
+/**
+ * Provider API hosts whose responses report reasoning tokens:
+ * OpenAI counts them in the completion tokens, Gemini separately from the
+ * candidate tokens. Anthropic bills thinking as plain output tokens.
+ */
+const USAGE_HOSTS = ['api.openai.com', 'generativelanguage.googleapis.com'];
+
+// Details of calls no response event asked for, e.g. after an error
+const MAX_PENDING_PER_MODEL = 20;
+
+const pendingDetails = new Map<string, LlmUsageDetails[]>();
+const pendingReads = new Set<Promise<void>>();
+const takenDetails = new WeakMap<LlmResponseBase, Promise<LlmUsageDetails>>();
+
+/**
+ * The model a provider request is for: the `model` field of OpenAI bodies,
+ * or the `models/<model>:` part of Gemini URLs
+ */
+function getRequestModel(url: string, body: unknown): string | null {
+  const fromUrl = /\/models\/([^/:?]+)/.exec(url);
+  if (fromUrl) return decodeURIComponent(fromUrl[1]);
+  if (typeof body !== 'string') return null;
+  try {
+    const model = (JSON.parse(body) as { model?: unknown }).model;
+    return typeof model === 'string' ? model : null;
+  } catch (_e) {
+    return null;
+  }
+}
+
+/**
+ * Reads the usage details of one response message, if it has any
+ */
+function getUsageDetails(message: unknown): LlmUsageDetails | null {
+  if (!message || typeof message !== 'object') return null;
+  const data = message as {
+    service_tier?: string;
+    usage?: {
+      completion_tokens_details?: { reasoning_tokens?: number };
+      output_tokens_details?: { reasoning_tokens?: number };
+    };
+    response?: { service_tier?: string; usage?: unknown };
+    usageMetadata?: { thoughtsTokenCount?: number };
+  };
+
+  if (data.usageMetadata) {
+    return {
+      reasoningTokens: data.usageMetadata.thoughtsTokenCount ?? 0,
+      reasoningInOutput: false,
+    };
+  }
+  // Streamed Responses API events wrap the final response
+  if (data.response?.usage) {
+    return getUsageDetails(data.response);
+  }
+  if (data.usage) {
+    return {
+      reasoningTokens:
+        data.usage.completion_tokens_details?.reasoning_tokens ??
+        data.usage.output_tokens_details?.reasoning_tokens ??
+        0,
+      reasoningInOutput: true,
+      batch: data.service_tier === 'flex',
+    };
+  }
+  return null;
+}
+
+/**
+ * Reads a JSON body, or the `data:` lines of an event stream, and keeps
+ * the last usage details it reports
+ */
+async function readUsage(model: string, response: Response) {
+  const text = await response.text();
+  const messages: unknown[] = [];
+  try {
+    messages.push(JSON.parse(text));
+  } catch (_e) {
+    for (const line of text.split(/\r?\n/)) {
+      if (!line.startsWith('data:')) continue;
+      try {
+        messages.push(JSON.parse(line.slice(5)));
+      } catch (_e) {
+        // Skip [DONE] and other non-JSON lines
+      }
+    }
+  }
+
+  let details: LlmUsageDetails | null = null;
+  for (const message of messages.flat()) {
+    details = getUsageDetails(message) ?? details;
+  }
+  if (!details) return;
+  const queue = pendingDetails.get(model) ?? [];
+  queue.push(details);
+  pendingDetails.set(model, queue.slice(-MAX_PENDING_PER_MODEL));
+}
+
+/**
+ * LlmResponseBase has no reasoning token count or service tier, but the
+ * provider clients call the global fetch. Wraps it to read those details
+ * from OpenAI and Gemini responses, queued per requested model until the
+ * response event of the call asks for them.
+ */
+export function installLlmUsageTracking() {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async (input, init) => {
+    const response = await originalFetch(input, init);
+    const url = getFetchUrl(input);
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch (_e) {
+      return response;
+    }
+    const model = getRequestModel(url, init?.body);
+    if (USAGE_HOSTS.includes(host) && model && response.ok) {
+      const read = readUsage(model, response.clone())
+        .catch(() => undefined)
+        .finally(() => pendingReads.delete(read));
+      pendingReads.add(read);
+    }
+    return response;
+  };
+}
+
+/**
+ * Usage details reported for a response, or none when its provider does
+ * not report them. Calls to the same model are matched in the order their
+ * responses arrived, so concurrent calls to one model may swap details.
+ */
+export function getLlmUsageDetails(
+  response: LlmResponseBase
+): Promise<LlmUsageDetails> {
+  let details = takenDetails.get(response);
+  if (!details) {
+    // The body is fully received before the response event, so this only
+    // waits for the copies to be parsed
+    details = Promise.all(pendingReads).then(
+      () => pendingDetails.get(response.model)?.shift() ?? {}
+    );
+    takenDetails.set(response, details);
+  }
+  return details;
+}
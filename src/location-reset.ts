@@ -0,0 +1,56 @@
+import fs from 'fs/promises';
+import path from 'path';
+import readline from 'readline/promises';
+
+/**
+ * State files cleared by a location reset: the location's state
+ * (messages, canvases, mission and participants), its action log and the
+ * state of the given agents (memories, summaries and entity memories)
+ */
+export function getLocationResetPaths(
+  location: string,
+  agents: string[]
+): string[] {
+  const statesDir = path.join(process.cwd(), 'states');
+  return [
+    path.join(statesDir, 'locations', `${location}.json`),
+    path.join(statesDir, 'actions', `${location}.jsonl`),
+    ...agents.map((agent) => path.join(statesDir, 'agents', `${agent}.json`)),
+  ];
+}
+
+/**
+ * Deletes the location's state files before the storages load them.
+ * Returns the files that existed and were removed.
+ */
+export async function resetLocationState(
+  location: string,
+  agents: string[]
+): Promise<string[]> {
+  const removed: string[] = [];
+  for (const filePath of getLocationResetPaths(location, agents)) {
+    try {
+      await fs.unlink(filePath);
+      removed.push(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Asks a yes/no question on stdin; anything but y/yes declines
+ */
+export async function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
@@ -0,0 +1,343 @@
+import { stringWidth } from 'terminal-kit';
+
+/**
+ * Represents a text segment with its styling state
+ */
+export interface TextSegment {
+  text: string;
+  /** Inside a `*action*` span */
+  isDim: boolean;
+  isHighlight?: boolean;
+  isBold?: boolean;
+  isCode?: boolean;
+  isLink?: boolean;
+  /** Markup such as bullets, table borders and link targets */
+  isMuted?: boolean;
+}
+
+/**
+ * Splits text at the given display width
+ */
+export function splitTextAtWidth(
+  text: string,
+  maxWidth: number
+): { text: string; remaining: string } {
+  let width = 0;
+  let result = '';
+  const chars = Array.from(text);
+  for (let i = 0; i < chars.length; i++) {
+    const charWidth = stringWidth(chars[i]);
+    if (width + charWidth > maxWidth) {
+      return { text: result, remaining: chars.slice(i).join('') };
+    }
+    result += chars[i];
+    width += charWidth;
+  }
+  return { text: result, remaining: '' };
+}
+
+export function getSegmentsWidth(segments: TextSegment[]): number {
+  return segments.reduce((sum, segment) => sum + stringWidth(segment.text), 0);
+}
+
+/**
+ * Wraps text segments across lines while maintaining styling states
+ */
+export function wrapTextSegments(
+  segments: TextSegment[],
+  maxWidth: number
+): TextSegment[][] {
+  const lines: TextSegment[][] = [];
+  let currentLine: TextSegment[] = [];
+  let currentLineWidth = 0;
+
+  for (const segment of segments) {
+    let remainingText = segment.text;
+
+    while (remainingText.length > 0) {
+      const availableWidth = maxWidth - currentLineWidth;
+      const textWidth = stringWidth(remainingText);
+
+      if (textWidth <= availableWidth) {
+        // Entire remaining text fits on current line
+        currentLine.push({ ...segment, text: remainingText });
+        currentLineWidth += textWidth;
+        remainingText = '';
+      } else {
+        // Take what fits on current line
+        if (availableWidth > 0) {
+          const { text: fittingText, remaining } = splitTextAtWidth(
+            remainingText,
+            availableWidth
+          );
+          if (fittingText.length > 0) {
+            currentLine.push({ ...segment, text: fittingText });
+          } else if (currentLineWidth === 0) {
+            // A single character wider than the line; emit it anyway
+            const [char, ...rest] = Array.from(remainingText);
+            currentLine.push({ ...segment, text: char });
+            remainingText = rest.join('');
+            lines.push(currentLine);
+            currentLine = [];
+            continue;
+          }
+          remainingText = remaining;
+        }
+
+        // Start new line
+        lines.push(currentLine);
+        currentLine = [];
+        currentLineWidth = 0;
+      }
+    }
+  }
+
+  if (currentLine.length > 0) {
+    lines.push(currentLine);
+  }
+  if (lines.length === 0) {
+    lines.push([]);
+  }
+  return lines;
+}
+
+// Inline code, bold, links and the asterisks of `*action*` spans
+const INLINE_PATTERN = /`([^`]+)`|\*\*(.+?)\*\*|\[([^\]]+)\]\(([^)\s]+)\)|\*/g;
+
+/**
+ * Parses inline markdown. Single asterisks keep their `*action*` meaning:
+ * the span including its asterisks is rendered dim.
+ */
+export function parseInlineMarkdown(text: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let isDimActive = false;
+  let currentPos = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > currentPos) {
+      segments.push({
+        text: text.slice(currentPos, index),
+        isDim: isDimActive,
+      });
+    }
+    currentPos = index + match[0].length;
+
+    const [token, code, bold, linkText, linkUrl] = match;
+    if (code !== undefined) {
+      segments.push({ text: code, isDim: false, isCode: true });
+    } else if (bold !== undefined) {
+      segments.push({ text: bold, isDim: isDimActive, isBold: true });
+    } else if (linkText !== undefined) {
+      segments.push({ text: linkText, isDim: false, isLink: true });
+      if (linkText !== linkUrl) {
+        segments.push({ text: ` (${linkUrl})`, isDim: false, isMuted: true });
+      }
+    } else if (token === '*') {
+      isDimActive = !isDimActive;
+      segments.push({ text: '*', isDim: true });
+    }
+  }
+
+  if (currentPos < text.length) {
+    segments.push({ text: text.slice(currentPos), isDim: isDimActive });
+  }
+  return segments;
+}
+
+/**
+ * Wraps segments after a prefix, indenting continuation lines
+ * by the prefix width
+ */
+function wrapWithPrefix(
+  prefix: TextSegment[],
+  segments: TextSegment[],
+  width: number
+): TextSegment[][] {
+  const prefixWidth = getSegmentsWidth(prefix);
+  const indent: TextSegment = {
+    text: ' '.repeat(prefixWidth),
+    isDim: false,
+  };
+  return wrapTextSegments(segments, Math.max(1, width - prefixWidth)).map(
+    (line, i) => [i === 0 ? prefix : [indent], line].flat()
+  );
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map((cell) => cell.trim());
+}
+
+function isTableSeparator(line: string): boolean {
+  return /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/.test(line);
+}
+
+/**
+ * Lays out a markdown table within `width`, shrinking the widest columns
+ * and wrapping cell text when the table does not fit
+ */
+function renderTable(rows: string[][], width: number): TextSegment[][] {
+  const columnCount = Math.max(...rows.map((row) => row.length));
+  const cells = rows.map((row) =>
+    Array.from({ length: columnCount }, (_, i) =>
+      parseInlineMarkdown(row[i] ?? '')
+    )
+  );
+  const columnWidths = Array.from({ length: columnCount }, (_, i) =>
+    Math.max(1, ...cells.map((row) => getSegmentsWidth(row[i])))
+  );
+
+  // Each column takes its width plus ' │ ' separators and outer borders
+  const available = Math.max(columnCount, width - (columnCount * 3 + 1));
+  while (columnWidths.reduce((sum, w) => sum + w, 0) > available) {
+    const widest = columnWidths.indexOf(Math.max(...columnWidths));
+    if (columnWidths[widest] <= 1) break;
+    columnWidths[widest]--;
+  }
+
+  const border = (left: string, middle: string, right: string) => [
+    {
+      text:
+        left + columnWidths.map((w) => '─'.repeat(w + 2)).join(middle) + right,
+      isDim: false,
+      isMuted: true,
+    },
+  ];
+
+  const lines: TextSegment[][] = [border('┌', '┬', '┐')];
+  cells.forEach((row, rowIndex) => {
+    const wrapped = row.map((cell, i) =>
+      wrapTextSegments(
+        rowIndex === 0
+          ? cell.map((segment) => ({ ...segment, isBold: true }))
+          : cell,
+        columnWidths[i]
+      )
+    );
+    const height = Math.max(...wrapped.map((cell) => cell.length));
+    for (let lineIndex = 0; lineIndex < height; lineIndex++) {
+      const line: TextSegment[] = [{ text: '│', isDim: false, isMuted: true }];
+      wrapped.forEach((cell, i) => {
+        const content = cell[lineIndex] ?? [];
+        const padding = columnWidths[i] - getSegmentsWidth(content);
+        line.push({ text: ' ', isDim: false }, ...content);
+        line.push({ text: ' '.repeat(padding + 1), isDim: false });
+        line.push({ text: '│', isDim: false, isMuted: true });
+      });
+      lines.push(line);
+    }
+    if (rowIndex === 0 && cells.length > 1) {
+      lines.push(border('├', '┼', '┤'));
+    }
+  });
+  lines.push(border('└', '┴', '┘'));
+  return lines;
+}
+
+/**
+ * Renders markdown into display lines of at most `width` columns.
+ * Supports headings, bullet and numbered lists, block quotes, fenced code
+ * blocks, tables, horizontal rules, and inline bold, code and links.
+ */
+export function renderMarkdown(text: string, width: number): TextSegment[][] {
+  const sourceLines = text.split(/\r?\n/);
+  const lines: TextSegment[][] = [];
+
+  for (let i = 0; i < sourceLines.length; i++) {
+    const line = sourceLines[i];
+
+    // Fenced code block
+    if (/^\s*```/.test(line)) {
+      const end = sourceLines.findIndex(
+        (candidate, j) => j > i && /^\s*```/.test(candidate)
+      );
+      const codeLines = sourceLines.slice(
+        i + 1,
+        end === -1 ? sourceLines.length : end
+      );
+      for (const codeLine of codeLines) {
+        lines.push(
+          ...wrapTextSegments(
+            [{ text: codeLine || ' ', isDim: false, isCode: true }],
+            width
+          )
+        );
+      }
+      i = end === -1 ? sourceLines.length : end;
+      continue;
+    }
+
+    // Table: a header row followed by a separator row
+    if (
+      line.includes('|') &&
+      i + 1 < sourceLines.length &&
+      isTableSeparator(sourceLines[i + 1])
+    ) {
+      const rows = [splitTableRow(line)];
+      let j = i + 2;
+      while (j < sourceLines.length && sourceLines[j].includes('|')) {
+        rows.push(splitTableRow(sourceLines[j]));
+        j++;
+      }
+      lines.push(...renderTable(rows, width));
+      i = j - 1;
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    if (heading) {
+      const segments = parseInlineMarkdown(heading[2]).map((segment) => ({
+        ...segment,
+        isBold: true,
+      }));
+      lines.push(...wrapTextSegments(segments, width));
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      lines.push([{ text: '─'.repeat(width), isDim: false, isMuted: true }]);
+      continue;
+    }
+
+    const quote = /^\s*>\s?(.*)$/.exec(line);
+    if (quote) {
+      lines.push(
+        ...wrapWithPrefix(
+          [{ text: '│ ', isDim: false, isMuted: true }],
+          parseInlineMarkdown(quote[1]).map((segment) => ({
+            ...segment,
+            isDim: true,
+          })),
+          width
+        )
+      );
+      continue;
+    }
+
+    const listItem = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/.exec(line);
+    if (listItem) {
+      const [, indent, marker, content] = listItem;
+      const bullet = /\d/.test(marker) ? marker : '•';
+      lines.push(
+        ...wrapWithPrefix(
+          [
+            { text: indent, isDim: false },
+            { text: `${bullet} `, isDim: false, isMuted: true },
+          ],
+          parseInlineMarkdown(content),
+          width
+        )
+      );
+      continue;
+    }
+
+    lines.push(...wrapTextSegments(parseInlineMarkdown(line), width));
+  }
+
+  return lines;
+}
@@ -0,0 +1,464 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+import { readDataFile } from './data-file';
+
+/**
+ * Tool names that change state on the MCP server (orders, transfers, ...)
+ * and are therefore simulated in a dry run. Matched on the leading verb,
+ * so read-only tools like `get_order` are forwarded.
+ */
+export const DEFAULT_MUTATING_TOOLS = [
+  '^(place|create|update|delete|post|submit|cancel|replace|amend)_',
+  '^(redeem|split|merge|approve|transfer|withdraw|deposit)(_|$)',
+];
+
+/**
+ * Optional dry-run fixture: canned tool results, a tool catalogue for when
+ * the MCP server is not running, and overrides for the mutating tool patterns
+ */
+export interface McpDryRunFixture {
+  mutatingTools?: string[];
+  /** MCP tool definitions returned by tools/list when the server is down */
+  tools?: Record<string, unknown>[];
+  /** Result per tool name, returned instead of calling the server */
+  results?: Record<string, unknown>;
+}
+
+/**
+ * One tool call handled during a dry run
+ */
+export interface McpDryRunRecord {
+  time: string;
+  serverUrl: string;
+  tool: string;
+  arguments: unknown;
+  result: unknown;
+  /** False when the call was forwarded to the real server */
+  simulated: boolean;
+  /** True when a request could not be checked and was not sent */
+  blocked?: boolean;
+}
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number;
+  method: string;
+  params?: { name?: string; arguments?: unknown };
+}
+
+/**
+ * An execute_mcp gimmick of a location model
+ */
+export interface McpGimmick {
+  key: string;
+  name?: string;
+  serverUrl: string;
+}
+
+/**
+ * Finds the execute_mcp gimmicks of a location model
+ */
+export async function getMcpGimmicks(location: string): Promise<McpGimmick[]> {
+  const model = await readDataFile<{
+    meta?: {
+      gimmicks?: Record<
+        string,
+        {
+          name?: string;
+          core?: string | { name?: string; options?: { serverUrl?: string } };
+        }
+      >;
+    };
+  }>(path.join(process.cwd(), 'models', 'locations', `${location}.json`));
+
+  const gimmicks: McpGimmick[] = [];
+  for (const [key, gimmick] of Object.entries(model.meta?.gimmicks ?? {})) {
+    const core = gimmick.core;
+    if (
+      typeof core === 'object' &&
+      core.name === 'execute_mcp' &&
+      core.options?.serverUrl
+    ) {
+      gimmicks.push({
+        key,
+        name: gimmick.name,
+        serverUrl: core.options.serverUrl,
+      });
+    }
+  }
+  return gimmicks;
+}
+
+/**
+ * Finds the server URLs of the execute_mcp gimmicks of a location model
+ */
+export async function getMcpServerUrls(location: string): Promise<string[]> {
+  return (await getMcpGimmicks(location)).map((gimmick) => gimmick.serverUrl);
+}
+
+/**
+ * URL of a fetch input
+ */
+export function getFetchUrl(input: Parameters<typeof fetch>[0]): string {
+  return typeof input === 'string'
+    ? input
+    : input instanceof URL
+      ? input.href
+      : input.url;
+}
+
+/**
+ * Paper-trading mode for MCP gimmicks. The MCP client talks to serverUrl
+ * through the global fetch, so the dry run wraps fetch: JSON-RPC
+ * `tools/call` requests for mutating tools get synthetic results, other
+ * JSON-RPC messages are forwarded to the server, falling back to the
+ * fixture when the server is not reachable. Requests that cannot be
+ * checked are blocked. Every tool call is logged.
+ */
+export class McpDryRun {
+  private originalFetch = globalThis.fetch;
+  private listeners: ((record: McpDryRunRecord) => void)[] = [];
+  private writeQueue: Promise<void> = Promise.resolve();
+  private mutatingTools: RegExp[];
+  private simulatedCount = 0;
+
+  private constructor(
+    private serverUrls: string[],
+    private fixture: McpDryRunFixture,
+    public readonly logPath: string
+  ) {
+    this.mutatingTools = (fixture.mutatingTools ?? DEFAULT_MUTATING_TOOLS).map(
+      (pattern) => new RegExp(pattern, 'i')
+    );
+  }
+
+  public static async create(
+    location: string,
+    fixturePath?: string
+  ): Promise<McpDryRun> {
+    const fixture = fixturePath
+      ? await readDataFile<McpDryRunFixture>(fixturePath)
+      : {};
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return new McpDryRun(
+      await getMcpServerUrls(location),
+      fixture ?? {},
+      path.join(
+        process.cwd(),
+        'states',
+        'dry-run',
+        `${location}-${timestamp}.jsonl`
+      )
+    );
+  }
+
+  public get servers(): string[] {
+    return this.serverUrls;
+  }
+
+  public onRecord(listener: (record: McpDryRunRecord) => void) {
+    this.listeners.push(listener);
+  }
+
+  public isMutating(tool: string): boolean {
+    return this.mutatingTools.some((pattern) => pattern.test(tool));
+  }
+
+  /**
+   * Routes fetch calls to the location's MCP servers through the dry run
+   */
+  public install() {
+    globalThis.fetch = (input, init) => {
+      const url = getFetchUrl(input);
+      if (this.serverUrls.some((serverUrl) => url.startsWith(serverUrl))) {
+        return this.handle(url, input, init);
+      }
+      return this.originalFetch(input, init);
+    };
+  }
+
+  /**
+   * Waits until all queued log entries are written
+   */
+  public async flush() {
+    await this.writeQueue;
+  }
+
+  /**
+   * Handles a request to an MCP server. Nothing reaches the server unless
+   * it is a POST whose JSON-RPC messages could all be checked; simulated
+   * calls are split out of batches and only the rest is forwarded.
+   */
+  private async handle(
+    url: string,
+    input: Parameters<typeof fetch>[0],
+    init?: RequestInit
+  ): Promise<Response> {
+    let request: Request;
+    let body: unknown;
+    try {
+      // Normalizes string, URL and Request inputs, wherever the body sits
+      request = new Request(input, init);
+      if (request.method !== 'POST') {
+        // Like MCP servers without a server-sent event stream; the client
+        // handles 405 for GET and DELETE
+        return new Response(null, { status: 405 });
+      }
+      body = JSON.parse(await request.clone().text());
+    } catch (_e) {
+      return this.blocked(url);
+    }
+
+    const messages = (Array.isArray(body) ? body : [body]) as JsonRpcRequest[];
+    if (
+      messages.length === 0 ||
+      !messages.every(
+        (message) =>
+          typeof message === 'object' &&
+          message !== null &&
+          typeof message.method === 'string'
+      )
+    ) {
+      return this.blocked(url);
+    }
+
+    const simulated = new Map<JsonRpcRequest, unknown>();
+    for (const message of messages) {
+      const tool = this.getTool(message);
+      if (!tool) continue;
+      const cannedResult = this.fixture.results?.[tool];
+      if (this.isMutating(tool) || cannedResult !== undefined) {
+        const result =
+          cannedResult ?? this.simulate(tool, message.params?.arguments);
+        this.record(url, tool, message.params?.arguments, result, true);
+        simulated.set(message, this.toolResult(result));
+      }
+    }
+
+    if (!Array.isArray(body)) {
+      if (simulated.has(messages[0])) {
+        return this.jsonRpcResult(messages[0], simulated.get(messages[0]));
+      }
+      return this.forward(url, request, messages, false);
+    }
+
+    // Answer the simulated part of a batch locally and forward the rest
+    const rest = messages.filter((message) => !simulated.has(message));
+    const responses: unknown[] = [...simulated].map(([message, result]) =>
+      this.jsonRpcMessage(message, result)
+    );
+    if (rest.length > 0) {
+      const response = await this.forward(
+        url,
+        new Request(request, { body: JSON.stringify(rest) }),
+        rest,
+        true
+      );
+      responses.push(...(await this.readJsonRpcMessages(response)));
+    }
+    if (responses.length === 0) {
+      // A batch of notifications only
+      return new Response(null, { status: 202 });
+    }
+    return new Response(JSON.stringify(responses), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  private getTool(message: JsonRpcRequest): string | null {
+    return message.method === 'tools/call' &&
+      typeof message.params?.name === 'string'
+      ? message.params.name
+      : null;
+  }
+
+  /**
+   * Sends checked messages to the real server, answering from the fixture
+   * when it is unreachable
+   */
+  private async forward(
+    url: string,
+    request: Request,
+    messages: JsonRpcRequest[],
+    isBatch: boolean
+  ): Promise<Response> {
+    let response: Response;
+    try {
+      response = await this.originalFetch(request);
+    } catch (error) {
+      const fallbacks = messages
+        .map((message) => this.fallback(message))
+        .filter((fallback) => fallback !== null);
+      if (fallbacks.length !== messages.length) throw error;
+      if (!isBatch) return fallbacks[0].response;
+      return new Response(
+        JSON.stringify(
+          fallbacks.flatMap(({ message }) => (message ? [message] : []))
+        ),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    for (const message of messages) {
+      const tool = this.getTool(message);
+      if (tool) {
+        this.record(
+          url,
+          tool,
+          message.params?.arguments,
+          { status: response.status },
+          false
+        );
+      }
+    }
+    return response;
+  }
+
+  /**
+   * Reads the JSON-RPC messages of a server response, sent either as JSON
+   * or as a server-sent event stream
+   */
+  private async readJsonRpcMessages(response: Response): Promise<unknown[]> {
+    const text = await response.text();
+    if (!text.trim()) return [];
+    if (response.headers.get('content-type')?.includes('text/event-stream')) {
+      return text
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => JSON.parse(line.slice('data:'.length)) as unknown);
+    }
+    const body = JSON.parse(text) as unknown;
+    return Array.isArray(body) ? body : [body];
+  }
+
+  /**
+   * Answers a request that could not be checked without forwarding it
+   */
+  private blocked(url: string): Response {
+    this.record(url, '(unchecked request)', null, null, false, true);
+    return new Response(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        id: null,
+        error: {
+          code: -32700,
+          message: 'Blocked by dry run: the request could not be checked',
+        },
+      }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  /**
+   * Builds a plausible result for a mutating tool
+   */
+  private simulate(tool: string, args: unknown): Record<string, unknown> {
+    this.simulatedCount++;
+    return {
+      dryRun: true,
+      success: true,
+      status: /cancel/i.test(tool) ? 'cancelled' : 'matched',
+      id: `dry-run-${Date.now()}-${this.simulatedCount}`,
+      tool,
+      arguments: args,
+      message: 'Simulated by dry run; nothing was sent to the server.',
+    };
+  }
+
+  /**
+   * Answers an MCP message from the fixture when the server is unreachable.
+   * `message` is null for notifications, which need no answer.
+   */
+  private fallback(
+    request: JsonRpcRequest
+  ): { response: Response; message: unknown } | null {
+    let result: unknown;
+    switch (request.method) {
+      case 'initialize':
+        result = {
+          protocolVersion: '2025-03-26',
+          capabilities: { tools: {} },
+          serverInfo: { name: 'samo-ai-dry-run', version: '1.0.0' },
+        };
+        break;
+      case 'tools/list':
+        result = { tools: this.fixture.tools ?? [] };
+        break;
+      case 'tools/call':
+        result = this.toolResult(
+          {
+            dryRun: true,
+            error: `${request.params?.name} is unavailable: the MCP server is not running and the dry-run fixture has no result for it`,
+          },
+          true
+        );
+        break;
+      default:
+        if (request.id === undefined) {
+          return {
+            response: new Response(null, { status: 202 }),
+            message: null,
+          };
+        }
+        result = {};
+    }
+    return {
+      response: this.jsonRpcResult(request, result),
+      message: this.jsonRpcMessage(request, result),
+    };
+  }
+
+  private toolResult(result: unknown, isError = false) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: typeof result === 'string' ? result : JSON.stringify(result),
+        },
+      ],
+      isError,
+    };
+  }
+
+  private jsonRpcMessage(request: JsonRpcRequest, result: unknown) {
+    return { jsonrpc: '2.0', id: request.id ?? null, result };
+  }
+
+  private jsonRpcResult(request: JsonRpcRequest, result: unknown): Response {
+    return new Response(JSON.stringify(this.jsonRpcMessage(request, result)), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  private record(
+    serverUrl: string,
+    tool: string,
+    args: unknown,
+    result: unknown,
+    simulated: boolean,
+    blocked = false
+  ) {
+    const entry: McpDryRunRecord = {
+      time: new Date().toISOString(),
+      serverUrl,
+      tool,
+      arguments: args,
+      result,
+      simulated,
+      ...(blocked && { blocked }),
+    };
+    for (const listener of this.listeners) listener(entry);
+
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.logPath), { recursive: true });
+        await fs.appendFile(this.logPath, JSON.stringify(entry) + '\n');
+      })
+      .catch((error) => {
+        console.error(`Dry-run log write failed: ${error}`);
+      });
+  }
+}
@@ -0,0 +1,85 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Memory slots the user pinned in the agents view, persisted under states
+ * so a pinned memory keeps its text even when its agent overwrites it
+ */
+export class MemoryPins {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(
+    public readonly filePath: string,
+    /** Pinned text by agent name and memory index */
+    private pins: Record<string, Record<string, string>>
+  ) {}
+
+  public static defaultPath(): string {
+    return path.join(process.cwd(), 'states', 'memory-pins.json');
+  }
+
+  /**
+   * Loads the pins file. A missing file starts without pins.
+   */
+  public static async load(filePath: string): Promise<MemoryPins> {
+    try {
+      const raw = await fs.readFile(filePath, 'utf-8');
+      return new MemoryPins(
+        filePath,
+        JSON.parse(raw) as Record<string, Record<string, string>>
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return new MemoryPins(filePath, {});
+    }
+  }
+
+  public get(agentName: string, index: number): string | undefined {
+    return this.pins[agentName]?.[String(index)];
+  }
+
+  /**
+   * Pinned memories of an agent as [index, text] pairs
+   */
+  public entries(agentName: string): [number, string][] {
+    return Object.entries(this.pins[agentName] ?? {}).map(([index, text]) => [
+      Number(index),
+      text,
+    ]);
+  }
+
+  /**
+   * Pins a memory slot, or updates the text of an already pinned one
+   */
+  public set(agentName: string, index: number, text: string) {
+    this.pins[agentName] = { ...this.pins[agentName], [String(index)]: text };
+    this.save();
+  }
+
+  public delete(agentName: string, index: number) {
+    const agentPins = this.pins[agentName];
+    if (!agentPins || !(String(index) in agentPins)) return;
+    delete agentPins[String(index)];
+    if (Object.keys(agentPins).length === 0) delete this.pins[agentName];
+    this.save();
+  }
+
+  private save() {
+    const data = JSON.stringify(this.pins, null, 2) + '\n';
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(this.filePath, data);
+      })
+      .catch((error) => {
+        console.error(`Memory pins write failed: ${error}`);
+      });
+  }
+
+  /**
+   * Waits until all queued writes are done
+   */
+  public async flush() {
+    await this.writeQueue;
+  }
+}
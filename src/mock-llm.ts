@@ -0,0 +1,168 @@
+import {
+  Agent,
+  LlmFactory,
+  LlmGenerateResponse,
+  LlmMessage,
+  LlmOptions,
+  LlmPlatform,
+  LlmService,
+  LlmServiceOptions,
+  LlmTool,
+  LlmToolCall,
+  LlmToolsResponse,
+  Location,
+} from '@little-samo/samo-ai';
+
+import { readDataFile } from './data-file';
+import { matchesEntityName } from './script-runner';
+
+/**
+ * A recorded LLM response replayed by the mock platform.
+ * Entries with `type: generate` answer llmGenerate calls (e.g. summaries),
+ * all others answer llmUseTools calls.
+ */
+export interface MockLlmResponse {
+  type?: 'useTools' | 'generate';
+  platform?: LlmPlatform;
+  model?: string;
+  thinking?: boolean;
+  toolCalls?: LlmToolCall[];
+  content?: string | Record<string, unknown>;
+  inputTokens?: number;
+  outputTokens?: number;
+  cachedInputTokens?: number;
+  cacheCreationTokens?: number;
+  imageOutputTokens?: number;
+  /** Simulated latency in milliseconds */
+  delayMs?: number;
+}
+
+/**
+ * Mock fixture file: responses keyed by agent name (or key), in turn order.
+ * The `*` key is used for agents without their own entry.
+ */
+export interface MockLlmFixture {
+  agents: Record<string, MockLlmResponse[]>;
+}
+
+type MockCallType = NonNullable<MockLlmResponse['type']>;
+
+/**
+ * Replaces the real LLM providers with a local stand-in that replays
+ * recorded responses, so sessions can run without network access
+ */
+export class MockLlmPlatform {
+  private currentAgentName: string | null = null;
+  private turns = new Map<string, number>();
+
+  private constructor(private fixture: MockLlmFixture) {}
+
+  public static async load(fixturePath: string): Promise<MockLlmPlatform> {
+    const fixture = await readDataFile<MockLlmFixture>(fixturePath);
+    if (!fixture || typeof fixture.agents !== 'object') {
+      throw new Error(`Mock fixture ${fixturePath} must contain "agents"`);
+    }
+    return new MockLlmPlatform(fixture);
+  }
+
+  /**
+   * Routes every LLM service created by SamoAI to this mock
+   */
+  public install() {
+    LlmFactory.create = (
+      platform: LlmPlatform,
+      model: string,
+      _apiKey?: string,
+      options?: LlmServiceOptions
+    ): LlmService => new MockLlmService(this, platform, model, options);
+  }
+
+  /**
+   * Tracks which agent is acting so responses can be keyed by agent
+   */
+  public setLocationEventHandlers(location: Location) {
+    location.on('agentExecuteNextActions', async (agent: Agent) => {
+      this.currentAgentName = agent.model.name;
+    });
+  }
+
+  /**
+   * Returns the next recorded response for the acting agent,
+   * or an empty response once the agent's turns are used up
+   */
+  public nextResponse(type: MockCallType): MockLlmResponse {
+    const agentName = this.currentAgentName ?? '*';
+    const key =
+      Object.keys(this.fixture.agents).find(
+        (name) => name !== '*' && matchesEntityName(agentName, name)
+      ) ?? '*';
+    const responses = (this.fixture.agents[key] ?? []).filter(
+      (response) => (response.type ?? 'useTools') === type
+    );
+
+    const turnKey = `${key}:${type}`;
+    const turn = this.turns.get(turnKey) ?? 0;
+    this.turns.set(turnKey, turn + 1);
+
+    return responses[turn] ?? { type };
+  }
+}
+
+/**
+ * LLM service backed by a MockLlmPlatform
+ */
+class MockLlmService extends LlmService {
+  public constructor(
+    private mock: MockLlmPlatform,
+    private mockPlatform: LlmPlatform,
+    private mockModel: string,
+    options?: LlmServiceOptions
+  ) {
+    super(mockModel, 'mock', options);
+  }
+
+  public async generate(
+    _messages: LlmMessage[],
+    options?: LlmOptions
+  ): Promise<LlmGenerateResponse<boolean>> {
+    const recorded = await this.replay('generate');
+    return {
+      ...this.buildResponseBase(recorded, options),
+      content: recorded.content ?? '',
+    };
+  }
+
+  public async useTools(
+    _messages: LlmMessage[],
+    _tools: LlmTool[],
+    options?: LlmOptions
+  ): Promise<LlmToolsResponse> {
+    const recorded = await this.replay('useTools');
+    return {
+      ...this.buildResponseBase(recorded, options),
+      toolCalls: recorded.toolCalls ?? [],
+    };
+  }
+
+  private async replay(type: MockCallType): Promise<MockLlmResponse> {
+    const recorded = this.mock.nextResponse(type);
+    if (recorded.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, recorded.delayMs));
+    }
+    return recorded;
+  }
+
+  private buildResponseBase(recorded: MockLlmResponse, options?: LlmOptions) {
+    return {
+      platform: recorded.platform ?? this.mockPlatform,
+      model: recorded.model ?? this.mockModel,
+      thinking: recorded.thinking ?? options?.thinking,
+      inputTokens: recorded.inputTokens ?? 0,
+      outputTokens: recorded.outputTokens ?? 0,
+      cachedInputTokens: recorded.cachedInputTokens,
+      cacheCreationTokens: recorded.cacheCreationTokens,
+      imageOutputTokens: recorded.imageOutputTokens,
+      responseTime: recorded.delayMs ?? 0,
+    };
+  }
+}
@@ -0,0 +1,333 @@
+import http from 'http';
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import * as packageJson from '../package.json';
+
+import { MockPolymarket, OrderSide } from './mock-polymarket';
+
+export const DEFAULT_MOCK_MCP_PORT = 11188;
+
+type ToolArguments = Record<string, unknown>;
+
+interface MockTool {
+  name: string;
+  description: string;
+  /** JSON Schema of the arguments */
+  properties: Record<string, Record<string, unknown>>;
+  required?: string[];
+  run: (exchange: MockPolymarket, args: ToolArguments) => unknown;
+}
+
+function stringArg(args: ToolArguments, key: string): string {
+  const value = args[key];
+  if (typeof value !== 'string' || !value) {
+    throw new Error(`"${key}" must be a non-empty string`);
+  }
+  return value;
+}
+
+function numberArg(args: ToolArguments, key: string): number {
+  // LLMs sometimes send numbers as strings
+  const value = typeof args[key] === 'string' ? Number(args[key]) : args[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`"${key}" must be a number`);
+  }
+  return value;
+}
+
+function optionalArg<T>(
+  args: ToolArguments,
+  key: string,
+  read: (args: ToolArguments, key: string) => T
+): T | undefined {
+  return args[key] === undefined || args[key] === null
+    ? undefined
+    : read(args, key);
+}
+
+function enumArg<T extends string>(values: readonly T[]) {
+  return (args: ToolArguments, key: string): T => {
+    const value = String(args[key]).toUpperCase();
+    const match = values.find((candidate) => candidate.toUpperCase() === value);
+    if (!match) throw new Error(`"${key}" must be one of ${values.join(', ')}`);
+    return match;
+  };
+}
+
+const ORDER_STATUSES = ['live', 'matched', 'cancelled'] as const;
+
+/**
+ * Tools of the Polymarket Terminal gimmick, in the shape of the
+ * SamoAI-MCP-Polymarket server
+ */
+const MOCK_TOOLS: MockTool[] = [
+  {
+    name: 'search_markets',
+    description: 'Search markets by text in the question, description or tags',
+    properties: {
+      query: { type: 'string', description: 'Text to search for' },
+      limit: { type: 'number' },
+      active: {
+        type: 'boolean',
+        description: 'Only active markets (default: true)',
+      },
+    },
+    run: (exchange, args) =>
+      exchange.searchMarkets(
+        optionalArg(args, 'query', stringArg),
+        optionalArg(args, 'limit', numberArg),
+        args.active !== false
+      ),
+  },
+  {
+    name: 'list_events',
+    description: 'List events, optionally filtered by tag',
+    properties: { tag: { type: 'string' }, limit: { type: 'number' } },
+    run: (exchange, args) =>
+      exchange.listEvents(
+        optionalArg(args, 'tag', stringArg),
+        optionalArg(args, 'limit', numberArg)
+      ),
+  },
+  {
+    name: 'get_event',
+    description: 'Get an event and its markets by ID or slug',
+    properties: { id: { type: 'string' } },
+    required: ['id'],
+    run: (exchange, args) => exchange.getEvent(stringArg(args, 'id')),
+  },
+  {
+    name: 'get_market',
+    description:
+      'Get a market and its outcome token IDs by condition ID or slug',
+    properties: { condition_id: { type: 'string' } },
+    required: ['condition_id'],
+    run: (exchange, args) =>
+      exchange.getMarket(stringArg(args, 'condition_id')),
+  },
+  {
+    name: 'get_price',
+    description:
+      'Get the best bid, best ask, midpoint and last trade price of a token',
+    properties: { token_id: { type: 'string' } },
+    required: ['token_id'],
+    run: (exchange, args) => exchange.getPrice(stringArg(args, 'token_id')),
+  },
+  {
+    name: 'get_order_book',
+    description: 'Get the bids and asks of a token',
+    properties: { token_id: { type: 'string' } },
+    required: ['token_id'],
+    run: (exchange, args) => exchange.getOrderBook(stringArg(args, 'token_id')),
+  },
+  {
+    name: 'place_order',
+    description:
+      'Place a limit order. GTC rests the unfilled part, FOK fills completely or fails.',
+    properties: {
+      token_id: { type: 'string' },
+      side: { type: 'string', enum: ['BUY', 'SELL'] },
+      price: { type: 'number', description: 'Limit price between 0 and 1' },
+      size: { type: 'number', description: 'Number of shares' },
+      type: { type: 'string', enum: ['GTC', 'FOK'] },
+    },
+    required: ['token_id', 'side', 'price', 'size'],
+    run: (exchange, args) =>
+      exchange.placeOrder({
+        tokenId: stringArg(args, 'token_id'),
+        side: enumArg<OrderSide>(['BUY', 'SELL'])(args, 'side'),
+        price: numberArg(args, 'price'),
+        size: numberArg(args, 'size'),
+        type: optionalArg(args, 'type', enumArg(['GTC', 'FOK'] as const)),
+      }),
+  },
+  {
+    name: 'cancel_order',
+    description: 'Cancel an open order',
+    properties: { order_id: { type: 'string' } },
+    required: ['order_id'],
+    run: (exchange, args) => exchange.cancelOrder(stringArg(args, 'order_id')),
+  },
+  {
+    name: 'cancel_all_orders',
+    description: 'Cancel all open orders',
+    properties: {},
+    run: (exchange) => exchange.cancelAll(),
+  },
+  {
+    name: 'get_orders',
+    description: 'List orders, optionally filtered by status',
+    properties: { status: { type: 'string', enum: [...ORDER_STATUSES] } },
+    run: (exchange, args) =>
+      exchange.getOrders(optionalArg(args, 'status', enumArg(ORDER_STATUSES))),
+  },
+  {
+    name: 'get_positions',
+    description: 'List positions with their current value and unrealized PnL',
+    properties: {},
+    run: (exchange) => exchange.getPositions(),
+  },
+  {
+    name: 'get_balance',
+    description: 'Get the USDC balance',
+    properties: {},
+    run: (exchange) => exchange.getBalance(),
+  },
+];
+
+/**
+ * Wraps a tool implementation so its return value becomes JSON text content
+ * and thrown errors become tool errors the agent can read
+ */
+function toolResult(run: () => unknown) {
+  try {
+    return {
+      content: [
+        { type: 'text' as const, text: JSON.stringify(run(), null, 2) },
+      ],
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: error instanceof Error ? error.message : String(error),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Local MCP server exposing the tools the Polymarket Terminal gimmick uses,
+ * backed by a MockPolymarket exchange instead of the real API
+ */
+export class MockMcpServer {
+  private server: http.Server | null = null;
+
+  public constructor(
+    private exchange: MockPolymarket,
+    private onToolCall?: (tool: string, args: unknown) => void
+  ) {}
+
+  /**
+   * Starts listening; resolves once the port is bound
+   */
+  public async start(port = DEFAULT_MOCK_MCP_PORT): Promise<void> {
+    this.server = http.createServer((req, res) => {
+      void this.handleRequest(req, res);
+    });
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, () => resolve());
+    });
+  }
+
+  public async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  /**
+   * Handles one request statelessly: a fresh MCP server and transport per
+   * POST, all sharing the same exchange state
+   */
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ) {
+    if (req.method !== 'POST') {
+      res.writeHead(405, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          error: { code: -32000, message: 'Method not allowed.' },
+          id: null,
+        })
+      );
+      return;
+    }
+
+    let body: unknown;
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch (_e) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          error: { code: -32700, message: 'Parse error' },
+          id: null,
+        })
+      );
+      return;
+    }
+
+    const server = this.createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+      enableJsonResponse: true,
+    });
+    res.on('close', () => {
+      void transport.close();
+      void server.close();
+    });
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      console.error(`MCP request failed: ${error}`);
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            error: { code: -32603, message: 'Internal server error' },
+            id: null,
+          })
+        );
+      }
+    }
+  }
+
+  private createMcpServer(): Server {
+    const server = new Server(
+      { name: 'samo-ai-mock-polymarket', version: packageJson.version },
+      { capabilities: { tools: {} } }
+    );
+
+    server.setRequestHandler(ListToolsRequestSchema, () => ({
+      tools: MOCK_TOOLS.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: {
+          type: 'object' as const,
+          properties: tool.properties,
+          required: tool.required,
+        },
+      })),
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, (request) => {
+      const { name, arguments: args = {} } = request.params;
+      this.onToolCall?.(name, args);
+      const tool = MOCK_TOOLS.find((candidate) => candidate.name === name);
+      return toolResult(() => {
+        if (!tool) throw new Error(`Unknown tool: ${name}`);
+        return tool.run(this.exchange, args);
+      });
+    });
+
+    return server;
+  }
+}
@@ -0,0 +1,481 @@
+import path from 'path';
+
+import { readDataFile } from './data-file';
+
+export interface MockOutcome {
+  outcome: string;
+  tokenId: string;
+  /** Mid price between 0 and 1 */
+  price: number;
+}
+
+export interface MockMarket {
+  conditionId: string;
+  question: string;
+  slug?: string;
+  description?: string;
+  eventId?: string;
+  endDate?: string;
+  volume?: number;
+  liquidity?: number;
+  active?: boolean;
+  closed?: boolean;
+  tags?: string[];
+  outcomes: MockOutcome[];
+}
+
+export interface MockEvent {
+  id: string;
+  title: string;
+  slug?: string;
+  description?: string;
+  endDate?: string;
+  tags?: string[];
+}
+
+export interface MockPosition {
+  tokenId: string;
+  size: number;
+  averagePrice: number;
+}
+
+/**
+ * Mock exchange fixture: markets and events to serve, plus the starting
+ * account state
+ */
+export interface MockPolymarketFixture {
+  /** Starting USDC balance (default: 1000) */
+  balance?: number;
+  events?: MockEvent[];
+  markets: MockMarket[];
+  positions?: MockPosition[];
+}
+
+export type OrderSide = 'BUY' | 'SELL';
+
+/**
+ * GTC rests the unfilled part on the book, FOK fills completely or not at all
+ */
+export type OrderType = 'GTC' | 'FOK';
+
+export interface OrderBookLevel {
+  price: number;
+  size: number;
+}
+
+export interface MockOrder {
+  orderId: string;
+  tokenId: string;
+  side: OrderSide;
+  price: number;
+  size: number;
+  filledSize: number;
+  status: 'live' | 'matched' | 'cancelled';
+  createdAt: string;
+}
+
+export interface PlaceOrderRequest {
+  tokenId: string;
+  side: OrderSide;
+  price: number;
+  size: number;
+  type?: OrderType;
+}
+
+interface TokenBook {
+  market: MockMarket;
+  outcome: MockOutcome;
+  /** Best (highest) bid first */
+  bids: OrderBookLevel[];
+  /** Best (lowest) ask first */
+  asks: OrderBookLevel[];
+  lastTradePrice: number | null;
+}
+
+const TICK = 0.01;
+const BOOK_DEPTH = 5;
+
+function roundPrice(price: number): number {
+  return Math.round(price * 100) / 100;
+}
+
+function roundSize(size: number): number {
+  return Math.round(size * 1e6) / 1e6;
+}
+
+function matchesText(query: string, ...values: (string | undefined)[]) {
+  const needle = query.toLowerCase();
+  return values.some((value) => value?.toLowerCase().includes(needle));
+}
+
+/**
+ * In-memory stand-in for the Polymarket exchange. Each token starts with a
+ * synthetic order book around its fixture price; orders fill against that
+ * liquidity and update the balance, positions and open orders. Nothing is
+ * persisted, so every server start begins from the fixture.
+ */
+export class MockPolymarket {
+  private books = new Map<string, TokenBook>();
+  private positions = new Map<string, MockPosition>();
+  private orders: MockOrder[] = [];
+  private balance: number;
+  private nextOrderId = 1;
+
+  private constructor(private fixture: MockPolymarketFixture) {
+    this.balance = fixture.balance ?? 1000;
+    for (const market of fixture.markets) {
+      for (const outcome of market.outcomes) {
+        this.books.set(outcome.tokenId, {
+          market,
+          outcome,
+          ...this.createBook(outcome.price),
+          lastTradePrice: null,
+        });
+      }
+    }
+    for (const position of fixture.positions ?? []) {
+      this.positions.set(position.tokenId, { ...position });
+    }
+  }
+
+  public static defaultFixturePath(): string {
+    return path.join(process.cwd(), 'models', 'mcp', 'polymarket.json');
+  }
+
+  public static async load(fixturePath: string): Promise<MockPolymarket> {
+    const fixture = await readDataFile<MockPolymarketFixture>(fixturePath);
+    if (!fixture || !Array.isArray(fixture.markets)) {
+      throw new Error(`Mock Polymarket fixture ${fixturePath} needs "markets"`);
+    }
+    return new MockPolymarket(fixture);
+  }
+
+  public get marketCount(): number {
+    return this.fixture.markets.length;
+  }
+
+  public searchMarkets(query?: string, limit = 10, activeOnly = true) {
+    return this.fixture.markets
+      .filter((market) => !activeOnly || (market.active ?? true))
+      .filter(
+        (market) =>
+          !query ||
+          matchesText(
+            query,
+            market.question,
+            market.slug,
+            market.description,
+            ...(market.tags ?? [])
+          )
+      )
+      .slice(0, limit)
+      .map((market) => this.describeMarket(market));
+  }
+
+  public listEvents(tag?: string, limit = 10) {
+    return (this.fixture.events ?? [])
+      .filter(
+        (event) =>
+          !tag ||
+          (event.tags ?? []).some(
+            (eventTag) => eventTag.toLowerCase() === tag.toLowerCase()
+          )
+      )
+      .slice(0, limit)
+      .map((event) => this.describeEvent(event));
+  }
+
+  public getEvent(id: string) {
+    const event = (this.fixture.events ?? []).find(
+      (candidate) => candidate.id === id || candidate.slug === id
+    );
+    if (!event) throw new Error(`Event not found: ${id}`);
+    return this.describeEvent(event);
+  }
+
+  public getMarket(id: string) {
+    const market = this.fixture.markets.find(
+      (candidate) => candidate.conditionId === id || candidate.slug === id
+    );
+    if (!market) throw new Error(`Market not found: ${id}`);
+    return this.describeMarket(market);
+  }
+
+  public getPrice(tokenId: string) {
+    const book = this.getBook(tokenId);
+    return {
+      tokenId,
+      outcome: book.outcome.outcome,
+      bestBid: book.bids[0]?.price ?? null,
+      bestAsk: book.asks[0]?.price ?? null,
+      midpoint: this.getMidpoint(book),
+      lastTradePrice: book.lastTradePrice,
+    };
+  }
+
+  public getOrderBook(tokenId: string) {
+    const book = this.getBook(tokenId);
+    const withOrders = (levels: OrderBookLevel[], side: OrderSide) => {
+      const merged = levels.map((level) => ({ ...level }));
+      for (const order of this.openOrders(tokenId, side)) {
+        const remaining = order.size - order.filledSize;
+        const level = merged.find((l) => l.price === order.price);
+        if (level) {
+          level.size = roundSize(level.size + remaining);
+        } else {
+          merged.push({ price: order.price, size: remaining });
+        }
+      }
+      return merged.sort((a, b) =>
+        side === 'BUY' ? b.price - a.price : a.price - b.price
+      );
+    };
+    return {
+      tokenId,
+      market: book.market.conditionId,
+      outcome: book.outcome.outcome,
+      bids: withOrders(book.bids, 'BUY'),
+      asks: withOrders(book.asks, 'SELL'),
+    };
+  }
+
+  public placeOrder(request: PlaceOrderRequest): MockOrder {
+    const book = this.getBook(request.tokenId);
+    const { side, price, size } = request;
+    if (book.market.closed || book.market.active === false) {
+      throw new Error(
+        `Market ${book.market.conditionId} is not accepting orders`
+      );
+    }
+    if (!(price > 0 && price < 1)) {
+      throw new Error('Price must be between 0 and 1');
+    }
+    if (Math.abs(roundPrice(price) - price) > 1e-9) {
+      throw new Error(`Price must be a multiple of the tick size ${TICK}`);
+    }
+    if (!(size > 0)) {
+      throw new Error('Size must be positive');
+    }
+
+    if (side === 'BUY') {
+      const available = this.balance - this.reservedBalance();
+      if (price * size > available + 1e-9) {
+        throw new Error(
+          `Insufficient balance: ${roundSize(available)} USDC available, ${roundSize(price * size)} required`
+        );
+      }
+    } else {
+      const held = this.positions.get(request.tokenId)?.size ?? 0;
+      const available = held - this.reservedShares(request.tokenId);
+      if (size > available + 1e-9) {
+        throw new Error(
+          `Insufficient shares: ${roundSize(available)} available to sell`
+        );
+      }
+    }
+
+    // Liquidity on the opposite side that crosses the limit price
+    const levels = side === 'BUY' ? book.asks : book.bids;
+    const crosses = (level: OrderBookLevel) =>
+      side === 'BUY' ? level.price <= price : level.price >= price;
+    const fillable = levels
+      .filter(crosses)
+      .reduce((sum, level) => sum + level.size, 0);
+    if (request.type === 'FOK' && fillable < size) {
+      throw new Error(
+        `FOK order not filled: only ${roundSize(fillable)} shares available at ${price} or better`
+      );
+    }
+
+    const order: MockOrder = {
+      orderId: `mock-${this.nextOrderId++}`,
+      tokenId: request.tokenId,
+      side,
+      price,
+      size,
+      filledSize: 0,
+      status: 'live',
+      createdAt: new Date().toISOString(),
+    };
+
+    while (order.filledSize < size && levels.length > 0 && crosses(levels[0])) {
+      const level = levels[0];
+      const fill = Math.min(level.size, size - order.filledSize);
+      this.applyFill(book, side, level.price, fill);
+      order.filledSize = roundSize(order.filledSize + fill);
+      level.size = roundSize(level.size - fill);
+      if (level.size <= 0) levels.shift();
+    }
+
+    if (order.filledSize >= size) order.status = 'matched';
+    this.orders.push(order);
+    return { ...order };
+  }
+
+  public cancelOrder(orderId: string): MockOrder {
+    const order = this.orders.find(
+      (candidate) => candidate.orderId === orderId
+    );
+    if (!order) throw new Error(`Order not found: ${orderId}`);
+    if (order.status !== 'live') {
+      throw new Error(`Order ${orderId} is already ${order.status}`);
+    }
+    order.status = 'cancelled';
+    return { ...order };
+  }
+
+  public cancelAll(): MockOrder[] {
+    return this.orders
+      .filter((order) => order.status === 'live')
+      .map((order) => this.cancelOrder(order.orderId));
+  }
+
+  public getOrders(status?: MockOrder['status']): MockOrder[] {
+    return this.orders
+      .filter((order) => !status || order.status === status)
+      .map((order) => ({ ...order }));
+  }
+
+  public getPositions() {
+    return [...this.positions.values()]
+      .filter((position) => position.size > 0)
+      .map((position) => {
+        const book = this.books.get(position.tokenId);
+        const currentPrice = book ? this.getMidpoint(book) : null;
+        return {
+          ...position,
+          market: book?.market.question,
+          outcome: book?.outcome.outcome,
+          currentPrice,
+          value:
+            currentPrice !== null
+              ? roundSize(position.size * currentPrice)
+              : null,
+          unrealizedPnl:
+            currentPrice !== null
+              ? roundSize(
+                  position.size * (currentPrice - position.averagePrice)
+                )
+              : null,
+        };
+      });
+  }
+
+  public getBalance() {
+    const reserved = this.reservedBalance();
+    return {
+      balance: roundSize(this.balance),
+      reserved: roundSize(reserved),
+      available: roundSize(this.balance - reserved),
+      currency: 'USDC',
+    };
+  }
+
+  private createBook(price: number) {
+    const bids: OrderBookLevel[] = [];
+    const asks: OrderBookLevel[] = [];
+    for (let i = 1; i <= BOOK_DEPTH; i++) {
+      const bid = roundPrice(price - TICK * i);
+      const ask = roundPrice(price + TICK * i);
+      if (bid > 0) bids.push({ price: bid, size: 100 * i });
+      if (ask < 1) asks.push({ price: ask, size: 100 * i });
+    }
+    return { bids, asks };
+  }
+
+  private getBook(tokenId: string): TokenBook {
+    const book = this.books.get(tokenId);
+    if (!book) throw new Error(`Unknown token ID: ${tokenId}`);
+    return book;
+  }
+
+  private getMidpoint(book: TokenBook): number {
+    const bid = book.bids[0]?.price;
+    const ask = book.asks[0]?.price;
+    if (bid !== undefined && ask !== undefined)
+      return roundPrice((bid + ask) / 2);
+    return book.lastTradePrice ?? book.outcome.price;
+  }
+
+  private applyFill(
+    book: TokenBook,
+    side: OrderSide,
+    price: number,
+    size: number
+  ) {
+    const tokenId = book.outcome.tokenId;
+    const position = this.positions.get(tokenId) ?? {
+      tokenId,
+      size: 0,
+      averagePrice: 0,
+    };
+    if (side === 'BUY') {
+      this.balance -= price * size;
+      position.averagePrice =
+        (position.averagePrice * position.size + price * size) /
+        (position.size + size);
+      position.size = roundSize(position.size + size);
+    } else {
+      this.balance += price * size;
+      position.size = roundSize(position.size - size);
+    }
+    this.positions.set(tokenId, position);
+    book.lastTradePrice = price;
+  }
+
+  private openOrders(tokenId?: string, side?: OrderSide): MockOrder[] {
+    return this.orders.filter(
+      (order) =>
+        order.status === 'live' &&
+        (!tokenId || order.tokenId === tokenId) &&
+        (!side || order.side === side)
+    );
+  }
+
+  private reservedBalance(): number {
+    return this.openOrders(undefined, 'BUY').reduce(
+      (sum, order) => sum + order.price * (order.size - order.filledSize),
+      0
+    );
+  }
+
+  private reservedShares(tokenId: string): number {
+    return this.openOrders(tokenId, 'SELL').reduce(
+      (sum, order) => sum + order.size - order.filledSize,
+      0
+    );
+  }
+
+  private describeMarket(market: MockMarket) {
+    return {
+      conditionId: market.conditionId,
+      question: market.question,
+      slug: market.slug,
+      description: market.description,
+      eventId: market.eventId,
+      endDate: market.endDate,
+      volume: market.volume,
+      liquidity: market.liquidity,
+      active: market.active ?? true,
+      closed: market.closed ?? false,
+      tags: market.tags,
+      tokens: market.outcomes.map((outcome) => ({
+        outcome: outcome.outcome,
+        tokenId: outcome.tokenId,
+        price: this.getMidpoint(this.getBook(outcome.tokenId)),
+      })),
+    };
+  }
+
+  private describeEvent(event: MockEvent) {
+    return {
+      ...event,
+      markets: this.fixture.markets
+        .filter((market) => market.eventId === event.id)
+        .map((market) => ({
+          conditionId: market.conditionId,
+          question: market.question,
+        })),
+    };
+  }
+}
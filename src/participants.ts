@@ -0,0 +1,156 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+import { AgentId, LocationId } from '@little-samo/samo-ai';
+import {
+  AgentStorage,
+  LocationStorage,
+} from '@little-samo/samo-ai-repository-storage';
+
+import { readDataFile } from './data-file';
+import { matchesEntityName } from './script-runner';
+
+/**
+ * An agent model file under models/agents
+ */
+export interface AgentModelRef {
+  /** File name without extension, as used by `--agents` */
+  key: string;
+  id: AgentId;
+  name: string;
+}
+
+export function getAgentModelsDir(): string {
+  return path.join(process.cwd(), 'models', 'agents');
+}
+
+/**
+ * Lists all agent models that can be brought into a location
+ */
+export async function listAgentModels(
+  modelsDir: string = getAgentModelsDir()
+): Promise<AgentModelRef[]> {
+  const files = (await fs.readdir(modelsDir))
+    .filter((file) => /\.(json|ya?ml)$/.test(file))
+    .sort();
+
+  const refs: AgentModelRef[] = [];
+  for (const file of files) {
+    const model = await readDataFile<{ id: number; name: string }>(
+      path.join(modelsDir, file)
+    );
+    refs.push({
+      key: path.basename(file, path.extname(file)),
+      id: Number(model.id) as AgentId,
+      name: model.name,
+    });
+  }
+  return refs;
+}
+
+/**
+ * Finds an agent model by key (e.g. `marimo`) or display name
+ */
+export function findAgentModel(
+  models: AgentModelRef[],
+  agent: string
+): AgentModelRef | undefined {
+  return (
+    models.find((model) => model.key === agent.toLowerCase()) ??
+    models.find((model) => matchesEntityName(model.name, agent))
+  );
+}
+
+/**
+ * Adds agents to and removes agents from a location's state
+ */
+export class LocationParticipants {
+  private constructor(
+    private agentStorage: AgentStorage,
+    private locationStorage: LocationStorage,
+    private locationId: LocationId,
+    private models: AgentModelRef[]
+  ) {}
+
+  public static async create(
+    agentStorage: AgentStorage,
+    locationStorage: LocationStorage,
+    locationId: LocationId
+  ): Promise<LocationParticipants> {
+    return new LocationParticipants(
+      agentStorage,
+      locationStorage,
+      locationId,
+      await listAgentModels()
+    );
+  }
+
+  public get availableAgents(): AgentModelRef[] {
+    return this.models;
+  }
+
+  /**
+   * Agents currently in the location
+   */
+  public async getAgents(): Promise<AgentModelRef[]> {
+    const locationState = await this.locationStorage.getOrCreateLocationState(
+      this.locationId
+    );
+    return locationState.agentIds.map(
+      (agentId) =>
+        this.models.find((model) => model.id === Number(agentId)) ?? {
+          key: String(agentId),
+          id: agentId,
+          name: `Agent #${agentId}`,
+        }
+    );
+  }
+
+  /**
+   * Loads the agent into AgentStorage and adds it to the location
+   */
+  public async add(agent: string): Promise<AgentModelRef> {
+    const model = this.resolve(agent);
+    const present = await this.getAgents();
+    if (present.some((ref) => ref.id === model.id)) {
+      throw new Error(`${model.name} is already in this location`);
+    }
+
+    await this.agentStorage.initialize([model.key]);
+    await this.locationStorage.addLocationStateAgentId(
+      this.locationId,
+      model.id
+    );
+    return model;
+  }
+
+  /**
+   * Removes the agent from the location.
+   * Its memories and state are kept so it can be invited back later.
+   */
+  public async remove(agent: string): Promise<AgentModelRef> {
+    const present = await this.getAgents();
+    const model =
+      findAgentModel(present, agent) ??
+      present.find((ref) => String(ref.id) === agent);
+    if (!model) {
+      throw new Error(`${agent} is not in this location`);
+    }
+
+    await this.locationStorage.removeLocationStateAgentId(
+      this.locationId,
+      model.id
+    );
+    return model;
+  }
+
+  private resolve(agent: string): AgentModelRef {
+    const model = findAgentModel(this.models, agent);
+    if (!model) {
+      throw new Error(
+        `Unknown agent ${agent} (available: ${this.models.map((ref) => ref.key).join(', ')})`
+      );
+    }
+    return model;
+  }
+}
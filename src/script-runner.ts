@@ -0,0 +1,352 @@
+import {
+  Agent,
+  EntityType,
+  LlmToolCall,
+  Location,
+  LocationId,
+  LocationMessage,
+  SamoAI,
+  UserId,
+} from '@little-samo/samo-ai';
+import { LocationStorage } from '@little-samo/samo-ai-repository-storage';
+
+import { readDataFile } from './data-file';
+import { formatToolCallSummary, HIDDEN_ACTIONS } from './tool-calls';
+import { UpdateLoopHandlers } from './update-loop';
+
+/**
+ * A single step of a conversation script
+ *
+ * - `say`: sends a user message to the location
+ * - `wait: idle`: waits until no agent has been active for `idleMs`
+ * - `wait: { message: <agent> }`: waits for the next message from an agent
+ * - `sleep`: waits for a fixed number of milliseconds
+ */
+export type ScriptStep =
+  | { say: string }
+  | { wait: 'idle'; timeout?: number }
+  | { wait: { message: string }; timeout?: number }
+  | { sleep: number };
+
+export interface ConversationScript {
+  agents?: string[] | string;
+  location?: string;
+  /** Default step timeout in seconds */
+  timeout?: number;
+  /** How long agents must stay quiet to count as idle, in milliseconds */
+  idleMs?: number;
+  steps: ScriptStep[];
+}
+
+export interface TranscriptEntry {
+  time: string;
+  type: 'message' | 'action' | 'system';
+  name: string;
+  message: string;
+}
+
+export type TranscriptFormat = 'text' | 'jsonl';
+
+const DEFAULT_STEP_TIMEOUT_SECONDS = 120;
+const DEFAULT_IDLE_MS = 5000;
+
+/**
+ * Checks the value of a step's key, so a malformed step fails at load time
+ * instead of partway through the run
+ */
+function validateScriptStep(step: ScriptStep): string | null {
+  if ('say' in step) {
+    return typeof step.say === 'string' ? null : '"say" must be a string';
+  }
+  if ('sleep' in step) {
+    return Number.isFinite(step.sleep) && step.sleep >= 0
+      ? null
+      : '"sleep" must be a non-negative number of milliseconds';
+  }
+  const wait: unknown = step.wait;
+  if (
+    wait !== 'idle' &&
+    !(
+      wait &&
+      typeof wait === 'object' &&
+      typeof (wait as { message?: unknown }).message === 'string' &&
+      (wait as { message: string }).message.trim()
+    )
+  ) {
+    return '"wait" must be "idle" or { message: <agent> }';
+  }
+  if (
+    step.timeout !== undefined &&
+    !(Number.isFinite(step.timeout) && step.timeout > 0)
+  ) {
+    return '"timeout" must be a positive number of seconds';
+  }
+  return null;
+}
+
+/**
+ * Loads a conversation script from a YAML or JSON file
+ */
+export async function loadConversationScript(
+  filePath: string
+): Promise<ConversationScript> {
+  const script = await readDataFile<ConversationScript>(filePath);
+
+  if (!script || !Array.isArray(script.steps)) {
+    throw new Error(`Script ${filePath} must contain a "steps" array`);
+  }
+  for (const [index, step] of script.steps.entries()) {
+    if (
+      !step ||
+      typeof step !== 'object' ||
+      !('say' in step || 'wait' in step || 'sleep' in step)
+    ) {
+      throw new Error(
+        `Script step ${index + 1} must have a "say", "wait" or "sleep" key`
+      );
+    }
+    const error = validateScriptStep(step);
+    if (error) {
+      throw new Error(`Script step ${index + 1}: ${error}`);
+    }
+  }
+  return script;
+}
+
+/**
+ * Normalizes the script's agent list into agent keys
+ */
+export function getScriptAgents(
+  script: ConversationScript
+): string[] | undefined {
+  if (!script.agents) return undefined;
+  return Array.isArray(script.agents)
+    ? script.agents
+    : script.agents.split(',').map((agent) => agent.trim());
+}
+
+/**
+ * Matches an entity display name like "Mimo (Gemini)" or "Little Samo"
+ * against a short name like "mimo" or "samo"
+ */
+export function matchesEntityName(name: string, target: string): boolean {
+  const baseName = name
+    .replace(/\(.*?\)/g, '')
+    .trim()
+    .toLowerCase();
+  const lowerTarget = target.trim().toLowerCase();
+  return (
+    baseName === lowerTarget ||
+    name.toLowerCase() === lowerTarget ||
+    baseName.split(/\s+/).includes(lowerTarget)
+  );
+}
+
+/**
+ * Formats transcript entries for output
+ */
+export function formatTranscript(
+  entries: TranscriptEntry[],
+  format: TranscriptFormat
+): string {
+  if (format === 'jsonl') {
+    return entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n';
+  }
+
+  const lines: string[] = [];
+  for (const entry of entries) {
+    if (entry.type === 'action') {
+      lines.push(`  ${entry.name} ▸ ${entry.message}`);
+    } else {
+      lines.push(`${entry.name}: ${entry.message}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Drives a conversation from a script without a TTY and
+ * collects everything that happens into a transcript
+ */
+export class ScriptRunner implements UpdateLoopHandlers {
+  private transcript: TranscriptEntry[] = [];
+  private busyAgents = new Set<string>();
+  private lastActivityAt = Date.now();
+  private saveCount = 0;
+  private userMessageListeners: ((name: string, message: string) => void)[] =
+    [];
+
+  public constructor(
+    private userName: string,
+    private locationId: LocationId,
+    private userId: UserId,
+    private locationStorage: LocationStorage,
+    private script: ConversationScript
+  ) {}
+
+  /**
+   * Registers a listener for the messages the script says
+   */
+  public onUserMessage(listener: (name: string, message: string) => void) {
+    this.userMessageListeners.push(listener);
+  }
+
+  public get entries(): TranscriptEntry[] {
+    return this.transcript;
+  }
+
+  /**
+   * Executes all script steps in order.
+   * Throws if a wait step times out.
+   */
+  public async run() {
+    const defaultTimeout = this.script.timeout ?? DEFAULT_STEP_TIMEOUT_SECONDS;
+
+    for (const [index, step] of this.script.steps.entries()) {
+      if ('say' in step) {
+        await this.say(step.say);
+      } else if ('sleep' in step) {
+        await new Promise((resolve) => setTimeout(resolve, step.sleep));
+      } else {
+        const timeoutMs = (step.timeout ?? defaultTimeout) * 1000;
+        if (step.wait === 'idle') {
+          await this.waitUntil(
+            () => this.isIdle(),
+            timeoutMs,
+            `Step ${index + 1}: agents did not become idle`
+          );
+        } else {
+          const target = step.wait.message;
+          const startIndex = this.transcript.length;
+          await this.waitUntil(
+            () =>
+              this.transcript
+                .slice(startIndex)
+                .some(
+                  (entry) =>
+                    entry.type === 'message' &&
+                    matchesEntityName(entry.name, target)
+                ),
+            timeoutMs,
+            `Step ${index + 1}: no message from ${target}`
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Waits for pending saves so the states directory is consistent
+   */
+  public async waitForSaves() {
+    while (this.saveCount > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+
+  private async say(message: string) {
+    this.record('message', this.userName, message);
+    this.lastActivityAt = Date.now();
+    for (const listener of this.userMessageListeners) {
+      listener(this.userName, message);
+    }
+
+    await SamoAI.instance.addLocationUserMessage(
+      this.locationId,
+      this.userId,
+      this.userName,
+      message
+    );
+    await this.locationStorage.updateLocationStatePauseUpdateUntil(
+      this.locationId,
+      new Date(Date.now() + 500)
+    );
+  }
+
+  private isIdle(): boolean {
+    const idleMs = this.script.idleMs ?? DEFAULT_IDLE_MS;
+    return (
+      this.busyAgents.size === 0 && Date.now() - this.lastActivityAt >= idleMs
+    );
+  }
+
+  private async waitUntil(
+    condition: () => boolean,
+    timeoutMs: number,
+    errorMessage: string
+  ) {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+      if (Date.now() >= deadline) {
+        throw new Error(`${errorMessage} within ${timeoutMs / 1000}s`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+
+  private record(type: TranscriptEntry['type'], name: string, message: string) {
+    this.transcript.push({
+      time: new Date().toISOString(),
+      type,
+      name,
+      message,
+    });
+  }
+
+  public addMessage(name: string, message: string) {
+    this.record('system', name, message);
+    if (name === 'Error') {
+      process.stderr.write(`${name}: ${message}\n`);
+    }
+  }
+
+  public incrementSaveCount() {
+    this.saveCount++;
+  }
+
+  public decrementSaveCount() {
+    this.saveCount--;
+  }
+
+  public setMessageEventHandlers(location: Location) {
+    location.on(
+      'messageAdded',
+      async (_loc: Location, message: LocationMessage) => {
+        if (message.entityType === EntityType.User || !message.message) {
+          return;
+        }
+        this.lastActivityAt = Date.now();
+        this.record('message', message.name || 'Unknown', message.message);
+      }
+    );
+
+    location.on('agentExecuteNextActions', async (agent: Agent) => {
+      this.busyAgents.add(agent.model.name);
+      this.lastActivityAt = Date.now();
+    });
+
+    location.on(
+      'agentExecuteNextAction',
+      (agent: Agent, _index: number, toolCall: LlmToolCall) => {
+        this.lastActivityAt = Date.now();
+        if (HIDDEN_ACTIONS.has(toolCall.name)) return;
+        this.record(
+          'action',
+          agent.model.name,
+          formatToolCallSummary(toolCall)
+        );
+      }
+    );
+
+    location.on('agentExecutedNextActions', async (agent: Agent) => {
+      this.busyAgents.delete(agent.model.name);
+      this.lastActivityAt = Date.now();
+    });
+
+    location.on('agentExecuteNextActionsFailed', async (agent: Agent) => {
+      this.busyAgents.delete(agent.model.name);
+      this.lastActivityAt = Date.now();
+      this.record('system', 'Error', `${agent.model.name} failed to act`);
+    });
+  }
+}
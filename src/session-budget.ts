@@ -0,0 +1,83 @@
+/**
+ * Cost and token limits for a single chat session.
+ * Once a limit is crossed the budget stays exceeded until the user
+ * resumes (removing the limit that was hit) or raises the cap.
+ */
+export class SessionBudget {
+  private sessionCost = 0;
+  private sessionTokens = 0;
+  private exceededReason: string | null = null;
+
+  public constructor(
+    private maxCost?: number,
+    private maxTokens?: number
+  ) {}
+
+  public get isExceeded(): boolean {
+    return this.exceededReason !== null;
+  }
+
+  public get reason(): string | null {
+    return this.exceededReason;
+  }
+
+  public get hasLimits(): boolean {
+    return this.maxCost !== undefined || this.maxTokens !== undefined;
+  }
+
+  /**
+   * Adds usage from one LLM response.
+   * Returns true if this response crossed a limit.
+   */
+  public add(cost: number, tokens: number): boolean {
+    this.sessionCost += cost;
+    this.sessionTokens += tokens;
+    if (this.isExceeded) return false;
+    this.check();
+    return this.isExceeded;
+  }
+
+  /**
+   * Removes the limits that were crossed and clears the exceeded state
+   */
+  public resume() {
+    if (this.maxCost !== undefined && this.sessionCost >= this.maxCost) {
+      this.maxCost = undefined;
+    }
+    if (this.maxTokens !== undefined && this.sessionTokens >= this.maxTokens) {
+      this.maxTokens = undefined;
+    }
+    this.exceededReason = null;
+  }
+
+  public setMaxCost(maxCost: number) {
+    this.maxCost = maxCost;
+    this.exceededReason = null;
+    this.check();
+  }
+
+  public setMaxTokens(maxTokens: number) {
+    this.maxTokens = maxTokens;
+    this.exceededReason = null;
+    this.check();
+  }
+
+  public describe(): string {
+    const costLimit =
+      this.maxCost !== undefined ? `$${this.maxCost.toFixed(4)}` : 'none';
+    const tokenLimit =
+      this.maxTokens !== undefined ? String(this.maxTokens) : 'none';
+    return `Session cost $${this.sessionCost.toFixed(4)} (limit ${costLimit}), tokens ${this.sessionTokens} (limit ${tokenLimit})`;
+  }
+
+  private check() {
+    if (this.maxCost !== undefined && this.sessionCost >= this.maxCost) {
+      this.exceededReason = `cost $${this.sessionCost.toFixed(4)} ≥ $${this.maxCost.toFixed(4)}`;
+    } else if (
+      this.maxTokens !== undefined &&
+      this.sessionTokens >= this.maxTokens
+    ) {
+      this.exceededReason = `tokens ${this.sessionTokens} ≥ ${this.maxTokens}`;
+    }
+  }
+}
@@ -0,0 +1,413 @@
+import { EventEmitter } from 'events';
+import fs from 'fs/promises';
+import path from 'path';
+
+import {
+  Agent,
+  Entity,
+  Gimmick,
+  Location,
+  LocationId,
+} from '@little-samo/samo-ai';
+import { terminal as term } from 'terminal-kit';
+
+import { TerminalUI } from './terminal-ui';
+
+/**
+ * One line of a session log
+ */
+export interface SessionEvent {
+  /** Milliseconds since epoch */
+  time: number;
+  event: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * First line of a session log, describing the recorded location
+ */
+export interface SessionHeader {
+  locationId: LocationId;
+  location: string;
+  agents: { id: number; name: string }[];
+}
+
+/**
+ * Messages the user submits are added outside the location update, so the
+ * location never emits them to the recorder; they are recorded explicitly
+ */
+const USER_MESSAGE_EVENT = 'userMessage';
+
+interface AgentRef {
+  id: number;
+  name: string;
+  updatingEntity?: string | null;
+}
+
+interface EntityRef {
+  key: string;
+  /** Entity type and id, since replayed entities are not class instances */
+  type: string;
+  id: number;
+  name: string;
+}
+
+/**
+ * Converts location event arguments to plain JSON data and back.
+ * The restored arguments only carry the fields the UI handlers read.
+ */
+interface SessionEventCodec {
+  record(...args: unknown[]): Record<string, unknown>;
+  replay(data: Record<string, unknown>): unknown[];
+}
+
+function agentRef(agent: Agent): AgentRef {
+  return {
+    id: Number(agent.model.id),
+    name: agent.model.name,
+    updatingEntity: agent.location?.updatingEntity?.name ?? null,
+  };
+}
+
+function entityRef(entity: Entity | Gimmick): EntityRef {
+  return {
+    key: String(entity.key),
+    type: String(entity.type),
+    id: Number(entity.id),
+    name: entity.name,
+  };
+}
+
+function restoreAgent(ref: AgentRef) {
+  return {
+    name: ref.name,
+    model: { id: ref.id, name: ref.name },
+    location: {
+      updatingEntity: ref.updatingEntity ? { name: ref.updatingEntity } : null,
+    },
+  };
+}
+
+function agentCodec(): SessionEventCodec {
+  return {
+    record: (agent) => ({ agent: agentRef(agent as Agent) }),
+    replay: (data) => [restoreAgent(data.agent as AgentRef)],
+  };
+}
+
+function llmResponseCodec(): SessionEventCodec {
+  return {
+    record: (entity, response) => ({
+      entity: entityRef(entity as Entity),
+      response,
+    }),
+    replay: (data) => [data.entity, data.response],
+  };
+}
+
+const SESSION_EVENT_CODECS: Record<string, SessionEventCodec> = {
+  missionSet: {
+    record: (_loc, mission) => ({ mission }),
+    replay: (data) => [{ state: { mission: data.mission } }, data.mission],
+  },
+  objectiveCompleted: {
+    record: (loc, index, objective) => ({
+      index,
+      objective,
+      mission: (loc as Location).state.mission ?? null,
+    }),
+    replay: (data) => [
+      { state: { mission: data.mission } },
+      data.index,
+      data.objective,
+    ],
+  },
+  llmGenerate: llmResponseCodec(),
+  llmUseTools: llmResponseCodec(),
+  messageAdded: {
+    record: (_loc, message) => ({ message }),
+    replay: (data) => [{}, data.message],
+  },
+  agentExecuteNextActions: agentCodec(),
+  agentExecuteNextAction: {
+    record: (agent, index, toolCall) => ({
+      agent: agentRef(agent as Agent),
+      index,
+      toolCall,
+    }),
+    replay: (data) => [
+      restoreAgent(data.agent as AgentRef),
+      data.index,
+      data.toolCall,
+    ],
+  },
+  agentExecutedNextActions: agentCodec(),
+  agentExecuteNextActionsFailed: agentCodec(),
+  agentSendMessageStream: {
+    record: (agent, entityKey, toolName, index, sequence, delta) => ({
+      agent: agentRef(agent as Agent),
+      entityKey,
+      toolName,
+      index,
+      sequence,
+      delta,
+    }),
+    replay: (data) => [
+      restoreAgent(data.agent as AgentRef),
+      data.entityKey,
+      data.toolName,
+      data.index,
+      data.sequence,
+      data.delta,
+    ],
+  },
+  gimmickOccupied: {
+    record: (gimmick, entity) => ({
+      gimmick: entityRef(gimmick as Gimmick),
+      entity: entityRef(entity as Entity),
+    }),
+    replay: (data) => [data.gimmick, data.entity],
+  },
+  gimmickReleased: {
+    record: (gimmick) => ({ gimmick: entityRef(gimmick as Gimmick) }),
+    replay: (data) => [data.gimmick],
+  },
+  canvasUpdated: {
+    record: (_loc, modifierType, modifierId, canvasName, text) => ({
+      modifierType,
+      modifierId,
+      canvasName,
+      text,
+    }),
+    replay: (data) => [
+      {},
+      data.modifierType,
+      data.modifierId,
+      data.canvasName,
+      data.text,
+    ],
+  },
+  agentUpdateMemory: {
+    record: (agent, _state, index, memory) => ({
+      agent: agentRef(agent as Agent),
+      index,
+      memory,
+    }),
+    replay: (data) => [
+      restoreAgent(data.agent as AgentRef),
+      {},
+      data.index,
+      data.memory,
+    ],
+  },
+  agentUpdateEntityMemory: {
+    record: (agent, _entityState, index, memory) => ({
+      agent: agentRef(agent as Agent),
+      index,
+      memory,
+    }),
+    replay: (data) => [
+      restoreAgent(data.agent as AgentRef),
+      {},
+      data.index,
+      data.memory,
+    ],
+  },
+  entityUpdateCanvas: {
+    record: (entity, canvasName, text) => ({
+      entity: entityRef(entity as Entity),
+      canvasName,
+      text,
+    }),
+    replay: (data) => [data.entity, data.canvasName, data.text],
+  },
+};
+
+/**
+ * Appends every location event the UI subscribes to into a JSONL session log
+ */
+export class SessionRecorder {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(public readonly filePath: string) {}
+
+  /**
+   * Creates the session log and writes its header line
+   */
+  public static async create(
+    filePath: string,
+    header: SessionHeader
+  ): Promise<SessionRecorder> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(header) + '\n');
+    return new SessionRecorder(filePath);
+  }
+
+  /**
+   * Default session log path under states/sessions
+   */
+  public static defaultPath(location: string): string {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return path.join(
+      process.cwd(),
+      'states',
+      'sessions',
+      `${location}-${timestamp}.jsonl`
+    );
+  }
+
+  public setLocationEventHandlers(location: Location) {
+    for (const [event, codec] of Object.entries(SESSION_EVENT_CODECS)) {
+      location.on(event, (...args: unknown[]) => {
+        this.append({ time: Date.now(), event, data: codec.record(...args) });
+      });
+    }
+  }
+
+  public recordUserMessage(name: string, message: string) {
+    this.append({
+      time: Date.now(),
+      event: USER_MESSAGE_EVENT,
+      data: { name, message },
+    });
+  }
+
+  /**
+   * Waits until all queued events are written
+   */
+  public async flush() {
+    await this.writeQueue;
+  }
+
+  private append(sessionEvent: SessionEvent) {
+    let line: string;
+    try {
+      line = JSON.stringify(sessionEvent) + '\n';
+    } catch (error) {
+      const errMessage = error instanceof Error ? error.message : String(error);
+      line =
+        JSON.stringify({
+          time: sessionEvent.time,
+          event: sessionEvent.event,
+          data: { error: `Unserializable event: ${errMessage}` },
+        }) + '\n';
+    }
+    this.writeQueue = this.writeQueue
+      .then(() => fs.appendFile(this.filePath, line))
+      .catch((error) => {
+        console.error(`Session recording failed: ${error}`);
+      });
+  }
+}
+
+/**
+ * Reads a session log written by SessionRecorder
+ */
+export async function readSessionLog(
+  filePath: string
+): Promise<{ header: SessionHeader; events: SessionEvent[] }> {
+  const raw = await fs.readFile(filePath, 'utf-8');
+  const lines = raw.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  if (lines.length === 0) {
+    throw new Error(`Session log ${filePath} is empty`);
+  }
+  const header = JSON.parse(lines[0]) as SessionHeader;
+  const events = lines.slice(1).map((line) => JSON.parse(line) as SessionEvent);
+  return { header, events };
+}
+
+/**
+ * Re-renders a recorded session in the TerminalUI by emitting the
+ * recorded events on a stand-in location
+ *
+ * Keys: SPACE pauses/resumes, +/- change speed, N steps one event while paused
+ */
+export class SessionReplayer {
+  private emitter = new EventEmitter();
+  private isPaused = false;
+  private stepRequested = false;
+
+  public constructor(
+    private terminalUI: TerminalUI,
+    private events: SessionEvent[],
+    private speed: number,
+    private maxGapMs: number
+  ) {
+    this.terminalUI.setMessageEventHandlers(this.emitter);
+    term.on('key', this.handleKeyInput.bind(this));
+  }
+
+  private handleKeyInput(name: string) {
+    if (name === ' ') {
+      this.isPaused = !this.isPaused;
+      this.terminalUI.addMessage(
+        'Replay',
+        this.isPaused ? 'Paused (N to step)' : 'Resumed'
+      );
+    } else if (name === '+' || name === '=') {
+      this.speed = Math.min(this.speed * 2, 64);
+      this.terminalUI.addMessage('Replay', `Speed ${this.speed}x`);
+    } else if (name === '-') {
+      this.speed = Math.max(this.speed / 2, 0.125);
+      this.terminalUI.addMessage('Replay', `Speed ${this.speed}x`);
+    } else if ((name === 'n' || name === 'N') && this.isPaused) {
+      this.stepRequested = true;
+    }
+  }
+
+  public async run() {
+    let previousTime = this.events[0]?.time ?? 0;
+
+    for (const sessionEvent of this.events) {
+      const gap = Math.min(sessionEvent.time - previousTime, this.maxGapMs);
+      previousTime = sessionEvent.time;
+      await this.waitFor(gap);
+
+      if (sessionEvent.event === USER_MESSAGE_EVENT) {
+        this.terminalUI.addMessage(
+          String(sessionEvent.data.name),
+          String(sessionEvent.data.message)
+        );
+        continue;
+      }
+
+      const codec = SESSION_EVENT_CODECS[sessionEvent.event];
+      if (!codec) continue;
+      try {
+        this.emitter.emit(
+          sessionEvent.event,
+          ...codec.replay(sessionEvent.data)
+        );
+      } catch (error) {
+        const errMessage =
+          error instanceof Error ? error.message : String(error);
+        this.terminalUI.addMessage(
+          'Error',
+          `Replay ${sessionEvent.event}: ${errMessage}`
+        );
+      }
+    }
+
+    this.terminalUI.addMessage('Replay', 'End of session');
+  }
+
+  /**
+   * Waits for the scaled gap between events, honoring pause and step
+   */
+  private async waitFor(gapMs: number) {
+    let remaining = gapMs;
+    while (remaining > 0 || this.isPaused) {
+      if (this.isPaused) {
+        if (this.stepRequested) {
+          this.stepRequested = false;
+          return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        continue;
+      }
+      const tick = Math.min(50, remaining / this.speed);
+      await new Promise((resolve) => setTimeout(resolve, tick));
+      remaining -= tick * this.speed;
+    }
+  }
+}
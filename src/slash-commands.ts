@@ -0,0 +1,120 @@
+/**
+ * A command typed into the input line as `/name arg1 arg2`
+ */
+export interface SlashCommand {
+  name: string;
+  /** Argument synopsis shown in help and usage errors, e.g. `<agent>` */
+  args?: string;
+  description: string;
+  /** Returns candidates for the argument at `argIndex` */
+  complete?(argIndex: number): string[];
+  run(args: string[]): void | Promise<void>;
+}
+
+/**
+ * Result of completing a partially typed command line
+ */
+export interface SlashCompletion {
+  /** Input line after completion (unchanged if nothing could be completed) */
+  input: string;
+  /** All candidates when the completion is ambiguous */
+  candidates: string[];
+}
+
+/**
+ * Returns true for input lines that should be dispatched as commands
+ */
+export function isSlashCommand(input: string): boolean {
+  return /^\/[a-z]/i.test(input);
+}
+
+function commonPrefix(values: string[]): string {
+  if (values.length === 0) return '';
+  let prefix = values[0];
+  for (const value of values.slice(1)) {
+    while (!value.toLowerCase().startsWith(prefix.toLowerCase())) {
+      prefix = prefix.slice(0, -1);
+    }
+  }
+  return prefix;
+}
+
+/**
+ * Parses, dispatches and completes slash commands
+ */
+export class SlashCommandRegistry {
+  private commands = new Map<string, SlashCommand>();
+
+  /**
+   * Registers a command, replacing any command with the same name
+   */
+  public register(command: SlashCommand) {
+    this.commands.set(command.name, command);
+  }
+
+  public get list(): SlashCommand[] {
+    return Array.from(this.commands.values()).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  public usage(command: SlashCommand): string {
+    return `/${command.name}${command.args ? ` ${command.args}` : ''}`;
+  }
+
+  /**
+   * Whether an input line names a registered command
+   */
+  public has(input: string): boolean {
+    const [name] = input.trim().slice(1).split(/\s+/);
+    return this.commands.has(name.toLowerCase());
+  }
+
+  /**
+   * Runs the command of an input line.
+   * Throws with a user-facing message on unknown commands or usage errors.
+   */
+  public async dispatch(input: string) {
+    const [name, ...args] = input.trim().slice(1).split(/\s+/);
+    const command = this.commands.get(name.toLowerCase());
+    if (!command) {
+      throw new Error(`Unknown command /${name} (type /help for commands)`);
+    }
+    await command.run(args);
+  }
+
+  /**
+   * Completes the command name or the argument under the cursor,
+   * which is always the end of the input line
+   */
+  public complete(input: string): SlashCompletion {
+    const tokens = input.slice(1).split(/\s+/);
+    const partial = tokens[tokens.length - 1];
+    let candidates: string[];
+
+    if (tokens.length === 1) {
+      candidates = this.list.map((command) => command.name);
+    } else {
+      const command = this.commands.get(tokens[0].toLowerCase());
+      candidates = command?.complete?.(tokens.length - 2) ?? [];
+    }
+
+    const matches = candidates.filter((candidate) =>
+      candidate.toLowerCase().startsWith(partial.toLowerCase())
+    );
+    if (matches.length === 0) {
+      return { input, candidates: [] };
+    }
+
+    const head = input.slice(0, input.length - partial.length);
+    if (matches.length === 1) {
+      return { input: `${head}${matches[0]} `, candidates: [] };
+    }
+
+    const prefix = commonPrefix(matches);
+    if (prefix.length > partial.length) {
+      return { input: `${head}${prefix}`, candidates: [] };
+    }
+    return { input, candidates: matches };
+  }
+}
@@ -1,9 +1,12 @@
+import { EventEmitter } from 'events';
+
 import {
   Agent,
   AgentId,
   Entity,
   EntityType,
   Gimmick,
+  GimmickId,
   LlmResponseBase,
   LlmToolCall,
   Location,
@@ -20,15 +23,43 @@ import {
 } from '@little-samo/samo-ai-repository-storage';
 import { stringWidth, terminal as term } from 'terminal-kit';
 
+import { ActionLog } from './action-log';
+import { ApprovalDecision, ApprovalRequest } from './approval-policy';
+import { CanvasHistory, diffLines } from './canvas-history';
+import { CostBreakdown, CostBreakdownRow, LlmCallType } from './cost-breakdown';
+import { editInExternalEditor, getEditorCommand } from './external-editor';
+import { InputHistory } from './input-history';
+import { LineEditor } from './line-editor';
 import { getLlmCost } from './llm-cost';
-
-/**
- * Represents a text segment with its styling state
- */
-export interface TextSegment {
-  text: string;
-  isDim: boolean;
-}
+import { getLlmUsageDetails } from './llm-usage';
+import {
+  renderMarkdown,
+  splitTextAtWidth,
+  TextSegment,
+  wrapTextSegments,
+} from './markdown';
+import { MemoryPins } from './memory-pins';
+import { SessionBudget } from './session-budget';
+import {
+  isSlashCommand,
+  SlashCommand,
+  SlashCommandRegistry,
+} from './slash-commands';
+import {
+  formatToolCallDetails,
+  formatToolCallSummary,
+  HIDDEN_ACTIONS,
+  ToolCallRecord,
+} from './tool-calls';
+import {
+  defaultExportPath,
+  EXPORT_FORMATS,
+  ExportFormat,
+  getExportFormat,
+  loadLocationTranscript,
+  writeLocationTranscript,
+} from './transcript-export';
+import { UpdateLoopHandlers } from './update-loop';
 
 // Known control key names from terminal-kit that should not be treated as character input
 export const CONTROL_KEYS = new Set([
@@ -62,33 +93,138 @@ export const CONTROL_KEYS = new Set([
   'F12',
 ]);
 
+export type ViewMode = 'chat' | 'canvas' | 'agents' | 'costs';
+
+type CanvasOwnerType = 'location' | 'gimmick' | 'agent';
+
+/**
+ * A tab of the canvas view: a location canvas or a canvas owned by
+ * a gimmick or an agent
+ */
+interface CanvasTab {
+  ownerType: CanvasOwnerType;
+  /** Display name of the owner; 'Location' for location canvases */
+  owner: string;
+  name: string;
+}
+
+const CANVAS_OWNER_ORDER: CanvasOwnerType[] = ['location', 'gimmick', 'agent'];
+
+/**
+ * A part of an agent's state that can be selected in the agents view
+ */
+type AgentSlot =
+  | { kind: 'summary' }
+  | { kind: 'memory'; index: number }
+  | { kind: 'entityMemory'; entityIndex: number; index: number };
+
+/**
+ * A user edit of an agent's summary or memory, applied to the running
+ * agent on the next location update
+ */
+interface AgentStateEdit {
+  agentId: AgentId;
+  kind: AgentSlot['kind'];
+  index: number;
+  targetType?: EntityType;
+  targetId?: number;
+  text: string;
+}
+
+/**
+ * A line of the agents view, tagged with the slot it shows, if any
+ */
+interface AgentContentLine {
+  text: string;
+  slot?: number;
+}
+
+const VIEW_MODES: ViewMode[] = ['chat', 'canvas', 'agents', 'costs'];
+
+// Bracketed paste markers; terminal-kit reports them as unknown input
+const PASTE_START = '\x1b[200~';
+const PASTE_END = '\x1b[201~';
+
+/**
+ * A line in the chat view; actions keep their tool call for the details panel
+ */
+interface ChatEntry {
+  name: string;
+  message: string;
+  /** Position in the stored location messages, counted like storedMessageCount */
+  storedIndex?: number;
+  isAction?: boolean;
+  toolCall?: ToolCallRecord;
+}
+
+/**
+ * What the message event handlers subscribe through: a location, or a
+ * stand-in emitter during replay
+ */
+export type LocationEventSource = Pick<EventEmitter, 'on'>;
+
+export interface TerminalUIOptions {
+  /** Disables user input, e.g. when replaying a recorded session */
+  readOnly?: boolean;
+  /** Pauses agent updates once the session crosses a cost or token limit */
+  budget?: SessionBudget;
+  /** Recalls and records submitted input */
+  history?: InputHistory;
+  /** Location name used for export file names */
+  location?: string;
+  /** Records canvas revisions for the diff mode of the canvas view */
+  canvasHistory?: CanvasHistory;
+  /** Memory slots pinned in the agents view */
+  memoryPins?: MemoryPins;
+  /** Tool calls of the location, included in exports */
+  actionLog?: ActionLog;
+}
+
 /**
  * Terminal UI for interacting with SamoAI agents
  * Handles terminal display, input management, and message rendering
  */
-export class TerminalUI {
+export class TerminalUI implements UpdateLoopHandlers {
   private colors = ['yellow', 'green', 'magenta', 'blue', 'cyan', 'red'];
   private entityColorMap = new Map<string, string>();
   private isRunning = true;
   private _thinkingAgentName: string | null = null;
   private _executingGimmicks = new Map<string, string>();
-  private _streamingMessages = new Map<
-    string,
-    { ref: { name: string; message: string } }
-  >();
+  private _streamingMessages = new Map<string, { ref: ChatEntry }>();
   private _streamRedrawPending = false;
   private statusIntervalId: NodeJS.Timeout | null = null;
-  private currentUserInput = '';
-  private messageBuffer: {
-    name: string;
-    message: string;
-    isAction?: boolean;
-  }[] = [];
+  private editor = new LineEditor();
+  private isPasting = false;
+  private isHistorySearching = false;
+  private historyQuery = '';
+  private historyMatchIndex: number | null = null;
+  private messageBuffer: ChatEntry[] = [];
   private readonly messageBufferSize = 100;
+  private readonly historyPageSize = 50;
+  private chatScrollOffset = 0;
+  /** Stored location messages seen so far; numbers their storedIndex */
+  private storedMessageCount = 0;
+  private isHistoryExhausted = false;
+  private isLoadingHistory = false;
+  private isSearching = false;
+  private searchQuery = '';
+  private searchMatchIndex: number | null = null;
+  private selectedActionIndex: number | null = null;
+  private isShowingActionDetails = false;
+  private actionDetailsScroll = 0;
+  private showHiddenActions = false;
+  private runningActions = new Map<string, ToolCallRecord>();
+  private approvalQueue: {
+    request: ApprovalRequest;
+    resolve: (decision: ApprovalDecision) => void;
+  }[] = [];
+  private approvalScroll = 0;
+  private lastToolsResponses = new Map<string, LlmResponseBase>();
   private saveCount = 0;
   private messageAreaHeight = 0;
   private readonly statusLineHeight = 1;
-  private readonly inputLineHeight = 1;
+  private inputAreaHeight = 1;
+  private readonly maxInputAreaHeight = 8;
   private readonly minScreenHeight = 10;
   private isRedirectingConsole = false;
 
@@ -96,8 +232,32 @@ export class TerminalUI {
   private totalOutputTokens = 0;
   private cumulativeCost = 0;
 
-  private viewMode: 'chat' | 'canvas' | 'agents' = 'chat';
+  private costBreakdown = new CostBreakdown();
+  private unpricedModels = new Set<string>();
+  private costScrollOffset = 0;
+
+  private viewMode: ViewMode = 'chat';
   private canvasData = new Map<string, string>();
+  /** Gimmick and agent canvases, keyed by getCanvasKey */
+  private entityCanvasData = new Map<
+    string,
+    { tab: CanvasTab; text: string }
+  >();
+  /** Gimmick names by gimmick id, for naming canvas revisions */
+  private gimmickNames = new Map<string, string>();
+  /** Owner shown in the canvas view; null shows all */
+  private canvasOwnerFilter: string | null = null;
+  /** Declared maxLength of each location canvas */
+  private canvasLimits = new Map<string, number>();
+  /** User edits waiting to be applied on the next location update */
+  private pendingCanvasEdits = new Map<string, string>();
+  /** Edits rejected for exceeding maxLength, reopened by the next Ctrl+E */
+  private canvasDrafts = new Map<string, string>();
+  /** True while an external editor owns the terminal */
+  private isSuspended = false;
+  private isCanvasDiffMode = false;
+  /** Revision shown in diff mode; null follows the latest */
+  private canvasRevisionIndex: number | null = null;
   private selectedCanvasIndex = 0;
   private canvasScrollOffset = 0;
 
@@ -107,13 +267,30 @@ export class TerminalUI {
     memories: string[];
     summary: string;
     canvases: Record<string, string>;
-    entityMemories: { targetName: string; memories: string[] }[];
+    entityMemories: {
+      targetName: string;
+      targetType: EntityType;
+      targetId: number;
+      memories: string[];
+    }[];
   }[] = [];
   private selectedAgentIndex = 0;
   private agentScrollOffset = 0;
+  /** Index into getAgentSlots while selecting in the agents view */
+  private selectedAgentSlot: number | null = null;
+  /** True while asking to confirm clearing the selected slot */
+  private isConfirmingSlotClear = false;
+  /** Saved edits not yet applied to the running agents, by slot */
+  private pendingAgentEdits = new Map<string, AgentStateEdit>();
 
   private currentMission: LocationMission | null = null;
 
+  private commands = new SlashCommandRegistry();
+  private shutdownHandlers: (() => void | Promise<void>)[] = [];
+  private userMessageListeners: ((name: string, message: string) => void)[] =
+    [];
+  private isManuallyPaused = false;
+
   private readonly originalConsoleLog = console.log;
   private readonly originalConsoleError = console.error;
   private readonly originalConsoleWarn = console.warn;
@@ -123,16 +300,20 @@ export class TerminalUI {
     private locationId: LocationId,
     private userId: UserId,
     private locationStorage: LocationStorage,
-    private agentStorage: AgentStorage
+    private agentStorage: AgentStorage,
+    private options: TerminalUIOptions = {}
   ) {
     this.interceptConsole();
 
     term.fullscreen(true);
     term.grabInput({ mouse: 'button' });
+    term(`\x1b[?2004h`);
     term.hideCursor(false);
     term.on('key', this.handleKeyInput.bind(this));
+    term.on('unknown', this.handleUnknownInput.bind(this));
     term.on('resize', this.handleResize.bind(this));
 
+    this.registerBuiltinCommands();
     this.handleResize();
     this.startStatusAnimation();
   }
@@ -174,7 +355,7 @@ export class TerminalUI {
   private handleResize() {
     this.messageAreaHeight = Math.max(
       this.minScreenHeight,
-      term.height - this.statusLineHeight - this.inputLineHeight
+      term.height - this.statusLineHeight - this.inputAreaHeight
     );
 
     this.clearScreen();
@@ -194,42 +375,76 @@ export class TerminalUI {
       return;
     }
 
+    if (this.approvalQueue.length > 0) {
+      this.handleApprovalKey(name);
+      return;
+    }
+
+    if (this.isSearching) {
+      this.handleSearchKey(name);
+      return;
+    }
+
+    if (this.isHistorySearching) {
+      this.handleHistorySearchKey(name);
+      return;
+    }
+
+    if (this.selectedActionIndex !== null) {
+      this.handleActionSelectKey(name);
+      return;
+    }
+
+    if (this.selectedAgentSlot !== null) {
+      this.handleAgentSlotKey(name);
+      return;
+    }
+
+    if (
+      name === 'ALT_ENTER' ||
+      name === 'SHIFT_ENTER' ||
+      (this.isPasting &&
+        (name === 'ENTER' || name === 'KP_ENTER' || name === 'CTRL_J'))
+    ) {
+      this.insertInput('\n');
+      return;
+    }
+
     if (name === 'ENTER' || name === 'KP_ENTER') {
       void this.submitInput();
       return;
     }
 
-    if (name === 'TAB') {
-      const modes: ('chat' | 'canvas' | 'agents')[] = [
-        'chat',
-        'canvas',
-        'agents',
-      ];
-      const idx = modes.indexOf(this.viewMode);
-      this.viewMode = modes[(idx + 1) % modes.length];
-      this.canvasScrollOffset = 0;
-      this.agentScrollOffset = 0;
-      this.clearScreen();
-      this.redrawUI();
+    if (
+      name === 'TAB' &&
+      this.viewMode === 'chat' &&
+      isSlashCommand(this.editor.text)
+    ) {
+      this.completeCommand();
       return;
     }
 
-    if (name === 'SHIFT_TAB') {
-      const modes: ('chat' | 'canvas' | 'agents')[] = [
-        'chat',
-        'canvas',
-        'agents',
-      ];
-      const idx = modes.indexOf(this.viewMode);
-      this.viewMode = modes[(idx - 1 + modes.length) % modes.length];
+    if (name === 'TAB' || name === 'SHIFT_TAB') {
+      const idx = VIEW_MODES.indexOf(this.viewMode);
+      const dir = name === 'TAB' ? 1 : -1;
+      this.viewMode =
+        VIEW_MODES[(idx + dir + VIEW_MODES.length) % VIEW_MODES.length];
       this.canvasScrollOffset = 0;
       this.agentScrollOffset = 0;
+      this.costScrollOffset = 0;
       this.clearScreen();
       this.redrawUI();
       return;
     }
 
     if (this.viewMode === 'agents') {
+      if (name === 'CTRL_O' && !this.options.readOnly) {
+        if (this.agentInfos[this.selectedAgentIndex]) {
+          this.selectedAgentSlot = 0;
+          this.redrawUI();
+        }
+        return;
+      }
       if (name === 'LEFT' || name === 'RIGHT') {
         if (this.agentInfos.length > 0) {
           const dir = name === 'LEFT' ? -1 : 1;
@@ -266,13 +481,70 @@ export class TerminalUI {
       }
     }
 
+    if (this.viewMode === 'costs') {
+      if (name === 'UP') {
+        if (this.costScrollOffset > 0) {
+          this.costScrollOffset--;
+          this.redrawUI();
+        }
+        return;
+      }
+      if (name === 'DOWN') {
+        this.costScrollOffset++;
+        this.redrawUI();
+        return;
+      }
+      if (name === 'PAGE_UP') {
+        const pageSize = this.messageAreaHeight - 2;
+        this.costScrollOffset = Math.max(0, this.costScrollOffset - pageSize);
+        this.redrawUI();
+        return;
+      }
+      if (name === 'PAGE_DOWN') {
+        this.costScrollOffset += this.messageAreaHeight - 2;
+        this.redrawUI();
+        return;
+      }
+    }
+
     if (this.viewMode === 'canvas') {
+      if (name === 'CTRL_E' && !this.options.readOnly) {
+        void this.editSelectedCanvas();
+        return;
+      }
+      if (name === 'CTRL_D') {
+        if (!this.options.canvasHistory) {
+          this.addMessage('System', 'Canvas history is not recorded here');
+          return;
+        }
+        this.isCanvasDiffMode = !this.isCanvasDiffMode;
+        this.canvasRevisionIndex = null;
+        this.canvasScrollOffset = 0;
+        this.redrawUI();
+        return;
+      }
+      if (this.isCanvasDiffMode) {
+        if (name === 'ESCAPE') {
+          this.isCanvasDiffMode = false;
+          this.canvasScrollOffset = 0;
+          this.redrawUI();
+          return;
+        }
+        if (name === 'LEFT' || name === 'RIGHT') {
+          this.stepCanvasRevision(name === 'LEFT' ? -1 : 1);
+          return;
+        }
+      }
+      if (name === 'CTRL_G') {
+        this.cycleCanvasOwnerFilter();
+        return;
+      }
       if (name === 'LEFT' || name === 'RIGHT') {
-        const names = Array.from(this.canvasData.keys());
-        if (names.length > 0) {
+        const tabs = this.getCanvasTabs();
+        if (tabs.length > 0) {
           const dir = name === 'LEFT' ? -1 : 1;
           this.selectedCanvasIndex =
-            (this.selectedCanvasIndex + dir + names.length) % names.length;
+            (this.selectedCanvasIndex + dir + tabs.length) % tabs.length;
           this.canvasScrollOffset = 0;
           this.redrawUI();
         }
@@ -306,474 +578,1355 @@ export class TerminalUI {
       }
     }
 
-    if (name === 'BACKSPACE') {
-      if (this.currentUserInput.length > 0) {
-        this.currentUserInput = this.currentUserInput.slice(0, -1);
-        this.refreshInputLine();
-      }
+    if (name === 'CTRL_X' && !this.options.readOnly) {
+      void this.exportTranscript();
       return;
     }
 
-    if (this.isControlKey(name)) return;
+    if (this.viewMode === 'chat') {
+      if (name === 'CTRL_R' && this.options.history) {
+        this.isHistorySearching = true;
+        this.historyQuery = '';
+        this.historyMatchIndex = null;
+        this.refreshInputLine();
+        return;
+      }
+      if (name === 'CTRL_O') {
+        this.startActionSelection();
+        return;
+      }
+      if (name === 'CTRL_T') {
+        this.showHiddenActions = !this.showHiddenActions;
+        this.addMessage(
+          'System',
+          this.showHiddenActions
+            ? 'Showing message actions from now on (Ctrl+T to hide)'
+            : 'Hiding message actions'
+        );
+        return;
+      }
+      if (name === 'CTRL_F') {
+        this.isSearching = true;
+        this.searchQuery = '';
+        this.searchMatchIndex = null;
+        this.redrawUI();
+        return;
+      }
+      if (name === 'PAGE_UP') {
+        void this.scrollChat(
+          Math.max(1, Math.floor(this.messageAreaHeight / 2))
+        );
+        return;
+      }
+      if (name === 'PAGE_DOWN') {
+        void this.scrollChat(
+          -Math.max(1, Math.floor(this.messageAreaHeight / 2))
+        );
+        return;
+      }
+      if (name === 'ESCAPE' && this.chatScrollOffset > 0) {
+        this.chatScrollOffset = 0;
+        this.trimMessageBuffer();
+        this.redrawUI();
+        return;
+      }
+    }
 
-    const inputStartX = this.getTextWidth(this.userName) + 3;
-    const maxInputWidth = term.width - inputStartX - 1;
-    if (this.getTextWidth(this.currentUserInput + name) <= maxInputWidth) {
-      this.currentUserInput += name;
+    if (this.handleEditorKey(name)) {
       this.refreshInputLine();
+      return;
     }
-  }
 
-  private isControlKey(name: string): boolean {
-    if (CONTROL_KEYS.has(name)) return true;
-    if (name.startsWith('CTRL_')) return true;
-    if (name.startsWith('ALT_')) return true;
-    if (name.startsWith('SHIFT_')) return true;
-    if (name.startsWith('KP_')) return true;
-    if (name.charCodeAt(0) < 32) return true;
-    return false;
+    if (this.isControlKey(name)) return;
+    this.insertInput(this.isPasting && name === 'TAB' ? '  ' : name);
   }
 
   /**
-   * Submits the current input text as a user message
+   * Applies cursor movement and deletion keys to the input editor.
+   * Returns false for keys the editor does not handle.
    */
-  private async submitInput() {
-    const submittedText = this.currentUserInput.trim();
-    this.currentUserInput = '';
-    this.refreshInputLine();
-
-    if (!submittedText) return;
-
-    this.messageBuffer.push({
-      name: this.userName,
-      message: submittedText,
-    });
-    this.redrawMessageArea();
-
-    try {
-      await SamoAI.instance.addLocationUserMessage(
-        this.locationId,
-        this.userId,
-        this.userName,
-        submittedText
-      );
-      await this.locationStorage.updateLocationStatePauseUpdateUntil(
-        this.locationId,
-        new Date(Date.now() + 500)
-      );
-    } catch (e) {
-      const errMessage = e instanceof Error ? e.message : String(e);
-      this.addMessage('Error', errMessage);
+  private handleEditorKey(name: string): boolean {
+    switch (name) {
+      case 'BACKSPACE':
+        this.editor.backspace();
+        return true;
+      case 'DELETE':
+        this.editor.delete();
+        return true;
+      case 'CTRL_W':
+      case 'ALT_BACKSPACE':
+        this.editor.deleteWordBackward();
+        return true;
+      case 'LEFT':
+        this.editor.left();
+        return true;
+      case 'RIGHT':
+        this.editor.right();
+        return true;
+      case 'CTRL_LEFT':
+      case 'ALT_B':
+        this.editor.wordLeft();
+        return true;
+      case 'CTRL_RIGHT':
+      case 'ALT_F':
+        this.editor.wordRight();
+        return true;
+      case 'HOME':
+        this.editor.home();
+        return true;
+      case 'END':
+        this.editor.end();
+        return true;
+      case 'UP':
+        return (
+          this.viewMode === 'chat' &&
+          (this.editor.up() || this.recallHistory('previous'))
+        );
+      case 'DOWN':
+        return (
+          this.viewMode === 'chat' &&
+          (this.editor.down() || this.recallHistory('next'))
+        );
+      default:
+        return false;
     }
   }
 
   /**
-   * Gets the actual display width of text (handles multi-byte characters)
+   * Replaces the input with an older or newer history entry.
+   * Returns false when there is nothing to recall in that direction.
    */
-  private getTextWidth(text: string): number {
-    return stringWidth(text);
+  private recallHistory(direction: 'previous' | 'next'): boolean {
+    const history = this.options.history;
+    if (!history) return false;
+    const entry =
+      direction === 'previous'
+        ? history.previous(this.editor.text)
+        : history.next();
+    if (entry === undefined) return false;
+    this.editor.setText(entry);
+    return true;
   }
 
   /**
-   * Truncates text to fit within the specified display width
+   * Handles keys during Ctrl+R reverse search: typing narrows the query,
+   * Ctrl+R steps to the next older match, ENTER puts the match into the
+   * input and ESC (or Ctrl+G) cancels
    */
-
-  private truncateTextToWidth(
-    text: string,
-    maxWidth: number
-  ): { text: string; remaining: string } {
-    if (this.getTextWidth(text) <= maxWidth) {
-      return { text, remaining: '' };
+  private handleHistorySearchKey(name: string) {
+    const history = this.options.history!;
+
+    if (name === 'ESCAPE' || name === 'CTRL_G') {
+      this.isHistorySearching = false;
+    } else if (name === 'ENTER' || name === 'KP_ENTER') {
+      if (this.historyMatchIndex !== null) {
+        this.editor.setText(history.get(this.historyMatchIndex) ?? '');
+      }
+      this.isHistorySearching = false;
+    } else if (name === 'CTRL_R') {
+      if (this.historyQuery) {
+        this.historyMatchIndex =
+          history.search(
+            this.historyQuery,
+            this.historyMatchIndex ?? history.size
+          ) ?? this.historyMatchIndex;
+      }
+    } else if (name === 'BACKSPACE') {
+      this.historyQuery = this.historyQuery.slice(0, -1);
+      this.historyMatchIndex = this.historyQuery
+        ? history.search(this.historyQuery)
+        : null;
+    } else if (!this.isControlKey(name)) {
+      this.historyQuery += name;
+      this.historyMatchIndex = history.search(this.historyQuery);
     }
 
-    let truncated = '';
-    let currentWidth = 0;
-
-    for (let i = 0; i < text.length; i++) {
-      const char = text[i];
-      const charWidth = this.getTextWidth(char);
+    this.refreshInputLine();
+  }
 
-      if (currentWidth + charWidth > maxWidth) {
-        return {
-          text: truncated,
-          remaining: text.substring(i),
-        };
-      }
+  private insertInput(text: string) {
+    if (this.options.readOnly) return;
+    this.editor.insert(text);
+    this.refreshInputLine();
+  }
 
-      truncated += char;
-      currentWidth += charWidth;
+  /**
+   * Receives escape sequences terminal-kit does not know, which includes
+   * the bracketed paste markers. Text between the markers in the same chunk
+   * is inserted here; text arriving in later chunks comes in as key events
+   * while `isPasting` is set, so ENTER inserts a newline instead of submitting.
+   */
+  private handleUnknownInput(chunk: Buffer) {
+    if (!this.isRunning) return;
+    const data = chunk.toString('utf8');
+    const start = data.lastIndexOf(PASTE_START);
+    const end = data.lastIndexOf(PASTE_END);
+
+    if (start !== -1) {
+      const contentStart = start + PASTE_START.length;
+      const pasted = data.slice(contentStart, end > start ? end : undefined);
+      this.isPasting = end < start;
+      this.insertInput(pasted.replace(/\t/g, '  '));
+    } else if (end !== -1) {
+      this.isPasting = false;
     }
-
-    return { text: truncated, remaining: '' };
   }
 
   /**
-   * Assigns consistent colors to entities for visual identification
+   * Scrolls the chat by a number of messages (positive = older),
+   * loading older history from storage when reaching the top
    */
-  private getColorForEntity(name: string): string {
-    if (!this.entityColorMap.has(name)) {
-      const colorIndex = this.entityColorMap.size % this.colors.length;
-      this.entityColorMap.set(name, this.colors[colorIndex]);
+  private async scrollChat(delta: number) {
+    const maxOffset = Math.max(0, this.messageBuffer.length - 1);
+    if (delta > 0 && this.chatScrollOffset + delta > maxOffset) {
+      await this.loadOlderMessages();
     }
-    return this.entityColorMap.get(name) as string;
+    this.chatScrollOffset = Math.min(
+      Math.max(0, this.chatScrollOffset + delta),
+      Math.max(0, this.messageBuffer.length - 1)
+    );
+    if (this.chatScrollOffset === 0) {
+      this.trimMessageBuffer();
+    }
+    this.redrawUI();
   }
 
   /**
-   * Parses message text into segments with styling information
-   * Properly handles actions that span multiple lines
+   * Prepends the page of stored messages before the oldest one in the
+   * buffer. Returns false when there is no older history.
    */
-  private parseMessageSegments(message: string): TextSegment[] {
-    const segments: TextSegment[] = [];
-    let currentPos = 0;
-    let isDimActive = false;
-
-    // Find all asterisk positions
-    const asteriskPositions: number[] = [];
-    for (let i = 0; i < message.length; i++) {
-      if (message[i] === '*') {
-        asteriskPositions.push(i);
+  private async loadOlderMessages(): Promise<boolean> {
+    if (this.isHistoryExhausted || this.isLoadingHistory) return false;
+    this.isLoadingHistory = true;
+    try {
+      // Stored messages from the oldest one in the buffer to the newest
+      const oldestIndex = Math.min(
+        this.storedMessageCount + 1,
+        ...this.messageBuffer.map(
+          (entry) => entry.storedIndex ?? Number.POSITIVE_INFINITY
+        )
+      );
+      const newerCount = this.storedMessageCount - oldestIndex + 1;
+      const messages =
+        (await this.locationStorage.getLocationMessages(
+          this.locationId,
+          newerCount + this.historyPageSize
+        )) ?? [];
+      const olderCount = messages.length - newerCount;
+      if (olderCount <= 0) {
+        this.isHistoryExhausted = true;
+        return false;
       }
-    }
 
-    // Process text between asterisks
-    for (let i = 0; i < asteriskPositions.length; i++) {
-      const asteriskPos = asteriskPositions[i];
-
-      // Add text before this asterisk
-      if (asteriskPos > currentPos) {
-        segments.push({
-          text: message.substring(currentPos, asteriskPos),
-          isDim: isDimActive,
-        });
+      const older: ChatEntry[] = [];
+      messages.slice(0, olderCount).forEach((message, i) => {
+        if (message && message.message && message.name) {
+          older.push({
+            name: message.name,
+            message: message.message,
+            storedIndex: oldestIndex - olderCount + i,
+          });
+        }
+      });
+      this.messageBuffer.unshift(...older);
+      if (this.searchMatchIndex !== null) {
+        this.searchMatchIndex += older.length;
       }
-
-      // Determine if this is opening or closing asterisk
-      if (!isDimActive) {
-        // This is opening asterisk - start action mode
-        isDimActive = true;
-        segments.push({
-          text: '*',
-          isDim: true, // Opening asterisk is action colored
-        });
-      } else {
-        // This is closing asterisk - end action mode
-        segments.push({
-          text: '*',
-          isDim: true, // Closing asterisk is also action colored
-        });
-        isDimActive = false;
+      if (this.selectedActionIndex !== null) {
+        this.selectedActionIndex += older.length;
       }
-
-      currentPos = asteriskPos + 1;
-    }
-
-    // Add remaining text
-    if (currentPos < message.length) {
-      segments.push({
-        text: message.substring(currentPos),
-        isDim: isDimActive,
-      });
+      if (olderCount < this.historyPageSize) {
+        this.isHistoryExhausted = true;
+      }
+      return true;
+    } catch (e) {
+      this.addMessage('Error', `Error loading older messages: ${e}`);
+      return false;
+    } finally {
+      this.isLoadingHistory = false;
     }
-
-    return segments;
   }
 
   /**
-   * Wraps text segments across lines while maintaining styling states
+   * Shows a tool call in the approval modal and resolves once the user
+   * approves or denies it. Requests arriving meanwhile are queued.
    */
-  private wrapTextSegments(
-    segments: TextSegment[],
-    maxWidth: number
-  ): TextSegment[][] {
-    const lines: TextSegment[][] = [];
-    let currentLine: TextSegment[] = [];
-    let currentLineWidth = 0;
-
-    for (const segment of segments) {
-      let remainingText = segment.text;
-
-      while (remainingText.length > 0) {
-        const availableWidth = maxWidth - currentLineWidth;
-        const textWidth = this.getTextWidth(remainingText);
-
-        if (textWidth <= availableWidth) {
-          // Entire remaining text fits on current line
-          if (remainingText.length > 0) {
-            currentLine.push({
-              text: remainingText,
-              isDim: segment.isDim,
-            });
-            currentLineWidth += textWidth;
-          }
-          remainingText = '';
-        } else {
-          // Need to split the text
-          if (availableWidth > 0) {
-            // Take what fits on current line
-            const { text: fittingText, remaining } = this.truncateTextToWidth(
-              remainingText,
-              availableWidth
-            );
-            if (fittingText.length > 0) {
-              currentLine.push({
-                text: fittingText,
-                isDim: segment.isDim,
-              });
-            }
-            remainingText = remaining;
-          }
+  public requestApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+    return new Promise((resolve) => {
+      this.approvalQueue.push({ request, resolve });
+      if (this.approvalQueue.length === 1) {
+        this.approvalScroll = 0;
+        term.bell();
+        this.redrawUI();
+      }
+    });
+  }
 
-          // Start new line
-          lines.push(currentLine);
-          currentLine = [];
-          currentLineWidth = 0;
-        }
+  /**
+   * Handles keys while the approval modal is open: Y approves,
+   * N denies and UP/DOWN scroll the arguments
+   */
+  private handleApprovalKey(name: string) {
+    const pending = this.approvalQueue[0];
+    let approved: boolean;
+    if (name === 'y' || name === 'Y') {
+      approved = true;
+    } else if (name === 'n' || name === 'N') {
+      approved = false;
+    } else {
+      if (name === 'UP') {
+        this.approvalScroll = Math.max(0, this.approvalScroll - 1);
+      } else if (name === 'DOWN') {
+        this.approvalScroll++;
       }
+      this.redrawUI();
+      return;
     }
 
-    // Add the last line if it has content
-    if (currentLine.length > 0) {
-      lines.push(currentLine);
+    this.approvalQueue.shift();
+    this.approvalScroll = 0;
+    pending.resolve({ approved });
+    this.addMessage(
+      'System',
+      `${approved ? 'Approved' : 'Denied'} ${pending.request.toolCall.name} by ${pending.request.agentName}`
+    );
+  }
+
+  /**
+   * Draws the pending approval over the message area
+   */
+  private redrawApprovalModal() {
+    const { request } = this.approvalQueue[0];
+    for (let i = 1; i <= this.messageAreaHeight; i++) {
+      term.moveTo(1, i).eraseLine();
     }
 
-    // Ensure we have at least one line
-    if (lines.length === 0) {
-      lines.push([]);
+    const width = term.width - 4;
+    const lines: string[] = [
+      `Agent: ${request.agentName}`,
+      `Location: ${request.location}`,
+      `Action: ${request.toolCall.name}`,
+      `Rule: ${JSON.stringify(request.rule)}`,
+      '',
+      'Arguments:',
+    ];
+    for (const line of JSON.stringify(
+      request.toolCall.arguments ?? {},
+      null,
+      2
+    ).split('\n')) {
+      let remaining = line;
+      do {
+        const { text, remaining: rest } = this.truncateTextToWidth(
+          remaining,
+          width
+        );
+        lines.push(text);
+        remaining = rest;
+      } while (remaining.length > 0);
     }
 
-    return lines;
+    const queued =
+      this.approvalQueue.length > 1
+        ? ` (${this.approvalQueue.length - 1} more waiting)`
+        : '';
+    term.moveTo(1, 1);
+    term.bgRed.white.bold(` ⚠ APPROVAL REQUIRED${queued} `.padEnd(term.width));
+    term.styleReset();
+
+    const contentHeight = this.messageAreaHeight - 2;
+    this.approvalScroll = Math.min(
+      this.approvalScroll,
+      Math.max(0, lines.length - contentHeight)
+    );
+    for (let i = 0; i < contentHeight; i++) {
+      const line = lines[this.approvalScroll + i];
+      if (line === undefined) break;
+      term.moveTo(3, i + 2);
+      term.white(line);
+    }
+
+    term.moveTo(1, this.messageAreaHeight);
+    term.bold.green(' Y approve ');
+    term.bold.red(' N deny ');
+    term.dim.gray(' ↑/↓ scroll');
+    term.styleReset();
   }
 
   /**
-   * Renders a line of text segments with proper styling
+   * Enters action selection, starting at the newest action in view
    */
-  private renderTextSegments(segments: TextSegment[]): void {
-    for (const segment of segments) {
-      if (segment.isDim) {
-        // Use cyan with dim for lighter blue appearance
-        term.cyan.dim(segment.text);
-      } else {
-        term.cyan(segment.text);
+  private startActionSelection() {
+    const end = this.messageBuffer.length - 1 - this.chatScrollOffset;
+    for (let i = end; i >= 0; i--) {
+      if (this.messageBuffer[i].toolCall) {
+        this.selectAction(i);
+        return;
       }
     }
-    term.styleReset();
+    this.addMessage('System', 'No actions to select');
   }
 
-  private clearScreen() {
-    term.clear();
-  }
-
-  private get hasActiveStatus(): boolean {
-    return this._thinkingAgentName !== null || this._executingGimmicks.size > 0;
+  private selectAction(index: number) {
+    this.selectedActionIndex = index;
+    this.chatScrollOffset = Math.min(
+      this.chatScrollOffset,
+      this.messageBuffer.length - 1 - index
+    );
+    const visibleEstimate = Math.max(1, this.messageAreaHeight - 2);
+    if (
+      this.messageBuffer.length - this.chatScrollOffset - index >
+      visibleEstimate
+    ) {
+      this.chatScrollOffset = this.messageBuffer.length - 1 - index;
+    }
+    this.redrawUI();
   }
 
   /**
-   * Periodically redraws the status line to animate the dots
+   * Handles keys while an action line is selected: UP/DOWN move between
+   * actions, ENTER opens the details panel and ESC goes back
    */
-  private startStatusAnimation() {
-    this.statusIntervalId = setInterval(() => {
-      if (!this.isRunning || !this.hasActiveStatus) return;
-      term.saveCursor();
-      term.hideCursor();
-      this.drawStatusLine();
-      term.restoreCursor();
-      term.hideCursor(false);
-    }, 500);
+  private handleActionSelectKey(name: string) {
+    const current = this.selectedActionIndex!;
+
+    if (this.isShowingActionDetails) {
+      if (name === 'ESCAPE' || name === 'ENTER' || name === 'KP_ENTER') {
+        this.isShowingActionDetails = false;
+      } else if (name === 'UP') {
+        this.actionDetailsScroll = Math.max(0, this.actionDetailsScroll - 1);
+      } else if (name === 'DOWN') {
+        this.actionDetailsScroll++;
+      } else if (name === 'PAGE_UP') {
+        this.actionDetailsScroll = Math.max(
+          0,
+          this.actionDetailsScroll - (this.messageAreaHeight - 2)
+        );
+      } else if (name === 'PAGE_DOWN') {
+        this.actionDetailsScroll += this.messageAreaHeight - 2;
+      }
+      this.redrawUI();
+      return;
+    }
+
+    if (name === 'ESCAPE' || name === 'CTRL_O') {
+      this.selectedActionIndex = null;
+      this.trimMessageBuffer();
+      this.redrawUI();
+    } else if (name === 'ENTER' || name === 'KP_ENTER') {
+      this.isShowingActionDetails = true;
+      this.actionDetailsScroll = 0;
+      this.redrawUI();
+    } else if (name === 'UP' || name === 'DOWN') {
+      const step = name === 'UP' ? -1 : 1;
+      for (
+        let i = current + step;
+        i >= 0 && i < this.messageBuffer.length;
+        i += step
+      ) {
+        if (this.messageBuffer[i].toolCall) {
+          this.selectAction(i);
+          return;
+        }
+      }
+    }
   }
 
   /**
-   * Draws the combined status line for agent thinking and gimmick execution
+   * Draws the details panel of the selected action over the message area
    */
-  private drawStatusLine() {
-    term.moveTo(1, this.messageAreaHeight + 1).eraseLine();
-
-    const parts: string[] = [];
-    const dots = '.'.repeat((Math.floor(Date.now() / 500) % 3) + 1);
+  private redrawActionDetails() {
+    const record = this.messageBuffer[this.selectedActionIndex!]?.toolCall;
+    if (!record) return;
 
-    if (this._thinkingAgentName) {
-      parts.push(`[${this._thinkingAgentName}] is thinking${dots}`);
+    const width = term.width - 2;
+    const lines: string[] = [];
+    for (const line of formatToolCallDetails(record)) {
+      let remaining = line;
+      do {
+        const { text, remaining: rest } = this.truncateTextToWidth(
+          remaining,
+          width
+        );
+        lines.push(text);
+        remaining = rest;
+      } while (remaining.length > 0);
     }
 
-    for (const [, gimmickName] of this._executingGimmicks) {
-      parts.push(`[${gimmickName}] executing${dots}`);
-    }
+    const contentHeight = this.messageAreaHeight - 1;
+    const maxScroll = Math.max(0, lines.length - contentHeight);
+    this.actionDetailsScroll = Math.min(this.actionDetailsScroll, maxScroll);
 
-    if (parts.length > 0) {
-      term.gray(parts.join(' | '));
+    for (let i = 0; i < contentHeight; i++) {
+      const line = lines[this.actionDetailsScroll + i];
+      if (line === undefined) break;
+      term.moveTo(2, i + 1);
+      if (i + this.actionDetailsScroll === 0) term.bold.white(line);
+      else term.white(line);
     }
-
-    const modeLabels = { chat: 'Chat', canvas: 'Canvas', agents: 'Agents' };
-    const modeHint = `[${modeLabels[this.viewMode]}] Tab ▸`;
-    const costText = `Cost: $${this.cumulativeCost.toFixed(4)}`;
-    const llmStats = `[In: ${this.totalInputTokens} | Out: ${this.totalOutputTokens} | ${costText}]`;
-    const rightText = `${llmStats} ${modeHint}`;
-
-    const hintWidth = this.getTextWidth(rightText);
-    term.moveTo(term.width - hintWidth, this.messageAreaHeight + 1);
-    term.dim.gray(rightText);
-  }
-
-  /**
-   * Applies a color to text output
-   */
-  private applyEntityColor(name: string, text: string) {
-    const color = this.getColorForEntity(name);
-    if (color === 'yellow') term.bold.yellow(text);
-    else if (color === 'green') term.bold.green(text);
-    else if (color === 'magenta') term.bold.magenta(text);
-    else if (color === 'blue') term.bold.blue(text);
-    else if (color === 'cyan') term.bold.cyan(text);
-    else if (color === 'red') term.bold.red(text);
-    else term.bold.yellow(text);
+    term.moveTo(1, this.messageAreaHeight).eraseLine();
+    term.dim.gray(' ↑/↓ scroll │ Esc back');
+    term.styleReset();
   }
 
   /**
-   * Draws the user input line with the current input text and cursor
+   * Handles keys while the incremental search prompt is open.
+   * Typing refines the query, ENTER/UP jump to older matches,
+   * DOWN to newer matches and ESC closes the search.
    */
-  private drawInputLine() {
-    term
-      .moveTo(1, this.messageAreaHeight + 1 + this.statusLineHeight)
-      .eraseLine();
-
-    this.applyEntityColor(this.userName, this.userName);
-    term.white(':').styleReset().white(' ');
-    term.white(this.currentUserInput);
-  }
+  private handleSearchKey(name: string) {
+    if (name === 'ESCAPE') {
+      this.isSearching = false;
+      this.searchQuery = '';
+      this.searchMatchIndex = null;
+      this.trimMessageBuffer();
+      this.redrawUI();
+      return;
+    }
+    if (name === 'ENTER' || name === 'KP_ENTER' || name === 'UP') {
+      void this.jumpToSearchMatch(-1);
+      return;
+    }
+    if (name === 'DOWN') {
+      void this.jumpToSearchMatch(1);
+      return;
+    }
+    if (name === 'BACKSPACE') {
+      this.searchQuery = this.searchQuery.slice(0, -1);
+      this.searchMatchIndex = null;
+      void this.jumpToSearchMatch(-1);
+      return;
+    }
+    if (this.isControlKey(name)) return;
 
-  /**
-   * Efficiently redraws only the input line, preserving user text
-   */
-  private refreshInputLine() {
-    if (!this.isRunning) return;
-    term.saveCursor();
-    term.hideCursor();
-    this.drawInputLine();
-    this.positionCursor();
-    term.hideCursor(false);
+    this.searchQuery += name;
+    this.searchMatchIndex = null;
+    void this.jumpToSearchMatch(-1);
   }
 
-  /**
-   * Positions the terminal cursor at the end of current user input
-   */
-  private positionCursor() {
-    const inputStartX = this.getTextWidth(this.userName) + 3;
-    const cursorX = inputStartX + this.getTextWidth(this.currentUserInput);
-    term.moveTo(cursorX, this.messageAreaHeight + 1 + this.statusLineHeight);
+  private messageMatchesSearch(index: number): boolean {
+    const entry = this.messageBuffer[index];
+    const query = this.searchQuery.toLowerCase();
+    return (
+      entry.message.toLowerCase().includes(query) ||
+      entry.name.toLowerCase().includes(query)
+    );
   }
 
   /**
-   * Redraws the message history with proper formatting and line wrapping
+   * Moves to the next match in a direction (-1 = older, 1 = newer).
+   * Starts from the newest message when there is no current match and
+   * loads older history when running out of matches.
    */
-  private redrawMessageArea() {
-    if (!this.isRunning) return;
-
-    let availableHeight = this.messageAreaHeight;
-    let startLine = 1;
-
-    // Clear the message area
-    for (let i = 1; i <= this.messageAreaHeight; i++) {
-      term.moveTo(1, i).eraseLine();
+  private async jumpToSearchMatch(direction: -1 | 1) {
+    if (!this.searchQuery) {
+      this.searchMatchIndex = null;
+      this.redrawUI();
+      return;
     }
 
-    if (this.currentMission) {
-      const { mainMission, objectives } = this.currentMission;
-      const missionLines: string[] = [];
-      missionLines.push(` 🎯 Mission: ${mainMission}`);
-      if (objectives && objectives.length > 0) {
-        for (const obj of objectives) {
-          missionLines.push(
-            `    ${obj.completed ? '[x]' : '[ ]'} ${obj.description}`
-          );
-        }
-      }
-      missionLines.push('─'.repeat(term.width));
-
+    const findFrom = (start: number) => {
       for (
-        let i = 0;
-        i < missionLines.length && startLine <= this.messageAreaHeight;
-        i++
+        let i = start;
+        i >= 0 && i < this.messageBuffer.length;
+        i += direction
       ) {
-        term.moveTo(1, startLine);
-        const rawLine = missionLines[i];
-        const truncated =
-          this.getTextWidth(rawLine) > term.width
-            ? this.truncateTextToWidth(rawLine, term.width - 2).text + '…'
-            : rawLine;
-
-        if (i === 0) term.cyan(truncated);
-        else if (i === missionLines.length - 1) term.gray(truncated);
-        else {
-          if (truncated.includes('[x]')) term.green(truncated);
-          else term.white(truncated);
-        }
-        startLine++;
-        availableHeight--;
+        if (this.messageMatchesSearch(i)) return i;
       }
-    }
+      return null;
+    };
 
-    if (availableHeight <= 0) return;
+    const start =
+      this.searchMatchIndex === null
+        ? this.messageBuffer.length - 1
+        : this.searchMatchIndex + direction;
+    let found = findFrom(start);
+
+    while (found === null && direction < 0) {
+      const previousLength = this.messageBuffer.length;
+      if (!(await this.loadOlderMessages())) break;
+      const loaded = this.messageBuffer.length - previousLength;
+      found = findFrom(
+        (this.searchMatchIndex === null ? loaded : this.searchMatchIndex) - 1
+      );
+    }
 
-    // Calculate how many messages to display
-    const messagesToShow = this.messageBuffer.slice(
-      Math.max(0, this.messageBuffer.length - availableHeight)
-    );
+    if (found !== null) {
+      this.searchMatchIndex = found;
+      this.chatScrollOffset = this.messageBuffer.length - 1 - found;
+    }
+    this.redrawUI();
+  }
 
-    // First pass: calculate how many lines each message will take
-    let totalLinesNeeded = 0;
-    const messageLineCounts: number[] = [];
+  /**
+   * Splits segments so that occurrences of the search query are highlighted
+   */
+  private highlightSegments(segments: TextSegment[]): TextSegment[] {
+    if (!this.isSearching || !this.searchQuery) return segments;
 
-    for (const { name, message, isAction } of messagesToShow) {
-      if (isAction) {
-        messageLineCounts.push(1);
-        totalLinesNeeded += 1;
-        continue;
+    const query = this.searchQuery.toLowerCase();
+    const result: TextSegment[] = [];
+    for (const segment of segments) {
+      const lower = segment.text.toLowerCase();
+      let pos = 0;
+      let idx = lower.indexOf(query);
+      while (idx !== -1) {
+        if (idx > pos) {
+          result.push({ ...segment, text: segment.text.slice(pos, idx) });
+        }
+        result.push({
+          ...segment,
+          text: segment.text.slice(idx, idx + query.length),
+          isHighlight: true,
+        });
+        pos = idx + query.length;
+        idx = lower.indexOf(query, pos);
       }
+      if (pos < segment.text.length) {
+        result.push({ ...segment, text: segment.text.slice(pos) });
+      }
+    }
+    return result;
+  }
 
-      // Split message by newlines to handle multi-line messages
-      const lines = message.split(/\r?\n/);
-
-      // Calculate maximum width for text (accounting for name and prefix)
-      const nameWidth = this.getTextWidth(name) + 2; // 2 for ': '
-      const maxTextWidth = term.width - nameWidth - 1; // -1 for safety margin
+  private isControlKey(name: string): boolean {
+    if (CONTROL_KEYS.has(name)) return true;
+    if (name.startsWith('CTRL_')) return true;
+    if (name.startsWith('ALT_')) return true;
+    if (name.startsWith('SHIFT_')) return true;
+    if (name.startsWith('KP_')) return true;
+    if (name.charCodeAt(0) < 32) return true;
+    return false;
+  }
 
-      let lineCount = 0;
+  /**
+   * Submits the current input text as a user message
+   */
+  private async submitInput() {
+    const submittedText = this.editor.text.trim();
+    this.editor.clear();
+    this.refreshInputLine();
 
-      // For each line in the message...
-      for (const line of lines) {
-        // Parse the line into segments and wrap them
-        const segments = this.parseMessageSegments(line);
-        const wrappedLines = this.wrapTextSegments(segments, maxTextWidth);
-        lineCount += wrappedLines.length;
-      }
+    if (!submittedText) return;
 
-      // Need at least one line even for empty messages
-      lineCount = Math.max(1, lineCount);
-      messageLineCounts.push(lineCount);
-      totalLinesNeeded += lineCount;
+    if (this.options.readOnly) {
+      this.addMessage('System', 'Input is disabled in read-only mode');
+      return;
     }
 
-    // If we need more lines than available, trim the messages from the beginning
-    if (totalLinesNeeded > availableHeight) {
-      let linesRemaining = availableHeight;
-      let startIndex = messageLineCounts.length - 1;
+    this.options.history?.add(submittedText);
 
-      while (startIndex >= 0) {
-        if (linesRemaining >= messageLineCounts[startIndex]) {
-          linesRemaining -= messageLineCounts[startIndex];
-          startIndex--;
-        } else {
-          break;
-        }
+    // Like `/` in a pager, `/text` that names no command searches the chat
+    if (isSlashCommand(submittedText) && !this.commands.has(submittedText)) {
+      this.isSearching = true;
+      this.searchQuery = submittedText.slice(1);
+      this.searchMatchIndex = null;
+      await this.jumpToSearchMatch(-1);
+      return;
+    }
+    if (isSlashCommand(submittedText)) {
+      try {
+        await this.commands.dispatch(submittedText);
+      } catch (e) {
+        const errMessage = e instanceof Error ? e.message : String(e);
+        this.addMessage('Error', errMessage);
       }
-
-      // Adjust messagesToShow to only include messages that will fit
-      messagesToShow.splice(0, startIndex + 1);
+      return;
     }
 
-    // Draw messages
-    let currentLine = startLine;
-
+    this.messageBuffer.push({
+      name: this.userName,
+      message: submittedText,
+      storedIndex: ++this.storedMessageCount,
+    });
+    this.chatScrollOffset = 0;
+    this.trimMessageBuffer();
+    this.redrawMessageArea();
+    for (const listener of this.userMessageListeners) {
+      listener(this.userName, submittedText);
+    }
+
+    try {
+      await SamoAI.instance.addLocationUserMessage(
+        this.locationId,
+        this.userId,
+        this.userName,
+        submittedText
+      );
+      await this.locationStorage.updateLocationStatePauseUpdateUntil(
+        this.locationId,
+        new Date(Date.now() + 500)
+      );
+    } catch (e) {
+      const errMessage = e instanceof Error ? e.message : String(e);
+      this.addMessage('Error', errMessage);
+    }
+  }
+
+  /**
+   * Registers a slash command, e.g. one that needs access to the CLI's storages
+   */
+  public registerCommand(command: SlashCommand) {
+    this.commands.register(command);
+  }
+
+  /**
+   * Completes the command line on Tab and lists candidates when ambiguous
+   */
+  private completeCommand() {
+    const { input, candidates } = this.commands.complete(this.editor.text);
+    if (candidates.length > 0) {
+      this.addMessage('System', candidates.join('  '));
+    }
+    if (input !== this.editor.text) {
+      this.editor.setText(input);
+      this.refreshInputLine();
+    }
+  }
+
+  /**
+   * Exports the location history. `target` is a format or a file path
+   * whose extension picks the format; the default is Markdown under
+   * states/exports.
+   */
+  private async exportTranscript(target?: string) {
+    let format: ExportFormat = 'md';
+    let filePath: string | undefined;
+    if (target && EXPORT_FORMATS.includes(target as ExportFormat)) {
+      format = target as ExportFormat;
+    } else if (target) {
+      const fileFormat = getExportFormat(target);
+      if (!fileFormat) {
+        this.addMessage(
+          'Error',
+          `Unknown export format for ${target} (use .md, .jsonl or .html)`
+        );
+        return;
+      }
+      format = fileFormat;
+      filePath = target;
+    }
+    filePath ??= defaultExportPath(
+      this.options.location ?? String(this.locationId),
+      format
+    );
+
+    try {
+      const transcript = await loadLocationTranscript(
+        this.locationStorage,
+        this.locationId,
+        this.options.location ?? String(this.locationId),
+        (await this.options.actionLog?.readEntries()) ?? [],
+        this.showHiddenActions
+      );
+      await writeLocationTranscript(transcript, filePath, format);
+      this.addMessage(
+        'System',
+        `Exported ${transcript.entries.length} entries to ${filePath}`
+      );
+    } catch (e) {
+      this.addMessage('Error', `Export failed: ${e}`);
+    }
+  }
+
+  private registerBuiltinCommands() {
+    this.registerCommand({
+      name: 'help',
+      description: 'List available commands',
+      run: () => {
+        const lines = this.commands.list.map(
+          (command) =>
+            `${this.commands.usage(command)} — ${command.description}`
+        );
+        lines.push('/<text> — Search the chat for text (or press Ctrl+F)');
+        this.addMessage('System', lines.join('\n'));
+      },
+    });
+    this.registerCommand({
+      name: 'pause',
+      description: 'Pause agent updates',
+      run: () => {
+        this.isManuallyPaused = true;
+        this.addMessage('System', 'Agents paused. Use /resume to continue.');
+      },
+    });
+    this.registerCommand({
+      name: 'resume',
+      description: 'Resume agent updates (also lifts a hit budget limit)',
+      run: () => {
+        this.isManuallyPaused = false;
+        if (this.options.budget?.isExceeded) {
+          this.options.budget.resume();
+        }
+        this.addMessage('System', 'Agents resumed.');
+      },
+    });
+    this.registerCommand({
+      name: 'agents',
+      description: 'List agents in this location',
+      run: () => {
+        if (this.agentInfos.length === 0) {
+          this.addMessage('System', 'No agents in this location');
+          return;
+        }
+        const lines = this.agentInfos.map((agent) => {
+          const state =
+            agent.name === this._thinkingAgentName ? ' (thinking)' : '';
+          return `${agent.name} #${agent.id}${state}`;
+        });
+        this.addMessage('System', `Agents:\n${lines.join('\n')}`);
+      },
+    });
+    this.registerCommand({
+      name: 'clear',
+      description: 'Clear the chat view (stored messages are kept)',
+      run: () => {
+        this.messageBuffer = [];
+        this.chatScrollOffset = 0;
+        this.isHistoryExhausted = true;
+        this.redrawUI();
+      },
+    });
+    this.registerCommand({
+      name: 'export',
+      args: '[md|jsonl|html|file]',
+      description:
+        'Export the full location history, mission and canvases (Ctrl+X)',
+      complete: (argIndex) => (argIndex === 0 ? EXPORT_FORMATS : []),
+      run: (args) => this.exportTranscript(args[0]),
+    });
+    this.registerCommand({
+      name: 'cost',
+      description: 'Show token usage and cost per agent',
+      run: () => {
+        const lines = [
+          `Total: in ${this.totalInputTokens} | out ${this.totalOutputTokens} | $${this.cumulativeCost.toFixed(4)}`,
+        ];
+        for (const row of this.costBreakdown.agents) {
+          lines.push(
+            `${row.key}: ${row.calls} calls | in ${row.inputTokens} | out ${row.outputTokens} | $${row.cost.toFixed(4)}${row.unpricedCalls > 0 ? '?' : ''}`
+          );
+        }
+        this.addMessage('System', lines.join('\n'));
+      },
+    });
+    this.registerCommand({
+      name: 'budget',
+      args: '[resume | cost <usd> | tokens <count>]',
+      description: 'Show or change the session budget',
+      complete: (argIndex) =>
+        argIndex === 0 ? ['resume', 'cost', 'tokens'] : [],
+      run: (args) => this.handleBudgetCommand(args),
+    });
+  }
+
+  /**
+   * Handles `/budget [resume | cost <usd> | tokens <count>]`
+   */
+  private handleBudgetCommand(args: string[]) {
+    const budget = this.options.budget;
+    if (!budget) {
+      this.addMessage(
+        'System',
+        'No budget configured (start chat with --max-cost or --max-tokens)'
+      );
+      return;
+    }
+
+    const [action, value] = args;
+    if (!action) {
+      this.addMessage('System', budget.describe());
+      return;
+    }
+
+    if (action === 'resume') {
+      budget.resume();
+    } else if (action === 'cost' || action === 'tokens') {
+      const limit = Number(value);
+      if (!value || !(limit > 0)) {
+        this.addMessage('Error', `Usage: /budget ${action} <positive number>`);
+        return;
+      }
+      if (action === 'cost') budget.setMaxCost(limit);
+      else budget.setMaxTokens(Math.floor(limit));
+    } else {
+      this.addMessage(
+        'Error',
+        'Usage: /budget [resume | cost <usd> | tokens <count>]'
+      );
+      return;
+    }
+
+    this.addMessage(
+      'System',
+      budget.isExceeded
+        ? `Still over budget: ${budget.reason}`
+        : `Agents resumed. ${budget.describe()}`
+    );
+  }
+
+  /**
+   * True while agent updates must not run, after /pause or a budget limit is hit
+   */
+  public get isUpdatePaused(): boolean {
+    return this.isManuallyPaused || (this.options.budget?.isExceeded ?? false);
+  }
+
+  /**
+   * Gets the actual display width of text (handles multi-byte characters)
+   */
+  private getTextWidth(text: string): number {
+    return stringWidth(text);
+  }
+
+  /**
+   * Truncates text to fit within the specified display width
+   */
+
+  private truncateTextToWidth(
+    text: string,
+    maxWidth: number
+  ): { text: string; remaining: string } {
+    if (this.getTextWidth(text) <= maxWidth) {
+      return { text, remaining: '' };
+    }
+
+    let truncated = '';
+    let currentWidth = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      const charWidth = this.getTextWidth(char);
+
+      if (currentWidth + charWidth > maxWidth) {
+        return {
+          text: truncated,
+          remaining: text.substring(i),
+        };
+      }
+
+      truncated += char;
+      currentWidth += charWidth;
+    }
+
+    return { text: truncated, remaining: '' };
+  }
+
+  /**
+   * Assigns consistent colors to entities for visual identification
+   */
+  private getColorForEntity(name: string): string {
+    if (!this.entityColorMap.has(name)) {
+      const colorIndex = this.entityColorMap.size % this.colors.length;
+      this.entityColorMap.set(name, this.colors[colorIndex]);
+    }
+    return this.entityColorMap.get(name) as string;
+  }
+
+  /**
+   * Renders a line of text segments with proper styling
+   */
+  private renderTextSegments(
+    segments: TextSegment[],
+    baseColor: 'cyan' | 'white' = 'cyan'
+  ): void {
+    for (const segment of segments) {
+      if (segment.isHighlight) {
+        term.bgYellow.black(segment.text);
+      } else if (segment.isCode) {
+        term.yellow(segment.text);
+      } else if (segment.isLink) {
+        term.underline.blue(segment.text);
+      } else if (segment.isMuted) {
+        term.gray(segment.text);
+      } else if (segment.isDim) {
+        // Use cyan with dim for lighter blue appearance
+        term[baseColor].dim(segment.text);
+      } else if (segment.isBold) {
+        term[baseColor].bold(segment.text);
+      } else {
+        term[baseColor](segment.text);
+      }
+    }
+    term.styleReset();
+  }
+
+  /**
+   * Lays out a chat message as markdown with search matches highlighted
+   */
+  private layoutMessage(message: string, maxWidth: number): TextSegment[][] {
+    return renderMarkdown(message, maxWidth).map((line) =>
+      this.highlightSegments(line)
+    );
+  }
+
+  private clearScreen() {
+    term.clear();
+  }
+
+  private get hasActiveStatus(): boolean {
+    return this._thinkingAgentName !== null || this._executingGimmicks.size > 0;
+  }
+
+  /**
+   * Periodically redraws the status line to animate the dots
+   */
+  private startStatusAnimation() {
+    this.statusIntervalId = setInterval(() => {
+      if (!this.isRunning || this.isSuspended || !this.hasActiveStatus) {
+        return;
+      }
+      term.saveCursor();
+      term.hideCursor();
+      this.drawStatusLine();
+      term.restoreCursor();
+      term.hideCursor(false);
+    }, 500);
+  }
+
+  /**
+   * Draws the combined status line for agent thinking and gimmick execution
+   */
+  private drawStatusLine() {
+    if (this.isSuspended) return;
+    term.moveTo(1, this.messageAreaHeight + 1).eraseLine();
+
+    const parts: string[] = [];
+    const dots = '.'.repeat((Math.floor(Date.now() / 500) % 3) + 1);
+
+    if (this._thinkingAgentName) {
+      parts.push(`[${this._thinkingAgentName}] is thinking${dots}`);
+    }
+
+    for (const [, gimmickName] of this._executingGimmicks) {
+      parts.push(`[${gimmickName}] executing${dots}`);
+    }
+
+    if (this.options.budget?.isExceeded) {
+      term.bgRed.white.bold(
+        ` ⏸ BUDGET EXCEEDED (${this.options.budget.reason}) — /budget resume or /budget cost <usd> `
+      );
+      term.styleReset();
+    } else if (this.isManuallyPaused) {
+      term.bgYellow.black(' ⏸ PAUSED — /resume to continue ');
+      term.styleReset();
+    } else if (parts.length > 0) {
+      term.gray(parts.join(' | '));
+    }
+
+    const modeLabels: Record<ViewMode, string> = {
+      chat: 'Chat',
+      canvas: 'Canvas',
+      agents: 'Agents',
+      costs: 'Costs',
+    };
+    const scrollHint =
+      this.viewMode === 'chat' && this.chatScrollOffset > 0
+        ? `↑${this.chatScrollOffset} (Esc ▾) `
+        : '';
+    const modeHint = `${scrollHint}[${modeLabels[this.viewMode]}] Tab ▸`;
+    const costText = `Cost: $${this.cumulativeCost.toFixed(4)}`;
+    const llmStats = `[In: ${this.totalInputTokens} | Out: ${this.totalOutputTokens} | ${costText}]`;
+    const rightText = `${llmStats} ${modeHint}`;
+
+    const hintWidth = this.getTextWidth(rightText);
+    term.moveTo(term.width - hintWidth, this.messageAreaHeight + 1);
+    term.dim.gray(rightText);
+  }
+
+  /**
+   * Applies a color to text output
+   */
+  private applyEntityColor(name: string, text: string) {
+    const color = this.getColorForEntity(name);
+    if (color === 'yellow') term.bold.yellow(text);
+    else if (color === 'green') term.bold.green(text);
+    else if (color === 'magenta') term.bold.magenta(text);
+    else if (color === 'blue') term.bold.blue(text);
+    else if (color === 'cyan') term.bold.cyan(text);
+    else if (color === 'red') term.bold.red(text);
+    else term.bold.yellow(text);
+  }
+
+  /**
+   * Display column where input text starts, after the `Name: ` prompt
+   */
+  private get inputStartX(): number {
+    return this.getTextWidth(this.userName) + 3;
+  }
+
+  private get inputTop(): number {
+    return this.messageAreaHeight + 1 + this.statusLineHeight;
+  }
+
+  /**
+   * Lays out the input text and picks the rows visible in the input area,
+   * scrolling so the cursor row is always shown
+   */
+  private getVisibleInput() {
+    const layout = this.editor.layout(
+      Math.max(1, term.width - this.inputStartX)
+    );
+    const firstRow = Math.max(0, layout.cursorRow - this.inputAreaHeight + 1);
+    return {
+      ...layout,
+      rows: layout.rows.slice(firstRow, firstRow + this.inputAreaHeight),
+      cursorRow: layout.cursorRow - firstRow,
+    };
+  }
+
+  /**
+   * Grows or shrinks the input area to fit the input text.
+   * Returns true if the layout changed and the UI was redrawn.
+   */
+  private updateInputAreaHeight(): boolean {
+    const rowCount =
+      this.isSearching || this.isHistorySearching
+        ? 1
+        : this.editor.layout(Math.max(1, term.width - this.inputStartX)).rows
+            .length;
+    const maxHeight = Math.max(
+      1,
+      Math.min(
+        this.maxInputAreaHeight,
+        term.height - this.statusLineHeight - this.minScreenHeight
+      )
+    );
+    const height = Math.min(rowCount, maxHeight);
+    if (height === this.inputAreaHeight) return false;
+
+    this.inputAreaHeight = height;
+    this.handleResize();
+    return true;
+  }
+
+  /**
+   * Draws the user input area with the current input text
+   */
+  private drawInputLine() {
+    if (this.isSuspended) return;
+    for (let i = 0; i < this.inputAreaHeight; i++) {
+      term.moveTo(1, this.inputTop + i).eraseLine();
+    }
+    term.moveTo(1, this.inputTop);
+
+    if (this.selectedActionIndex !== null) {
+      term.dim.gray(
+        this.isShowingActionDetails
+          ? 'Action details'
+          : 'Select action: ↑/↓ move │ Enter details │ Esc back'
+      );
+      term.styleReset();
+      return;
+    }
+
+    if (this.isHistorySearching) {
+      const match =
+        this.historyMatchIndex !== null
+          ? (this.options.history?.get(this.historyMatchIndex) ?? '')
+          : '';
+      const prompt = `(reverse-i-search)'${this.historyQuery}': `;
+      const firstLine = match.split(/\r?\n/)[0];
+      const maxWidth = term.width - this.getTextWidth(prompt) - 2;
+      term.bold.yellow(prompt).styleReset();
+      term.white(
+        this.getTextWidth(firstLine) > maxWidth
+          ? this.truncateTextToWidth(firstLine, maxWidth).text + '…'
+          : firstLine
+      );
+      if (this.historyQuery && this.historyMatchIndex === null) {
+        term.dim.gray(' (no match)');
+      }
+      term.styleReset();
+      return;
+    }
+
+    if (this.isSearching) {
+      term.bold.yellow('Search:').styleReset().white(' ');
+      term.white(this.searchQuery);
+      term.dim.gray(` ${this.getSearchStatus()}`);
+      term.styleReset();
+      return;
+    }
+
+    this.applyEntityColor(this.userName, this.userName);
+    term.white(':').styleReset().white(' ');
+    const { rows } = this.getVisibleInput();
+    for (let i = 0; i < rows.length; i++) {
+      term.moveTo(this.inputStartX, this.inputTop + i);
+      term.white(rows[i]);
+    }
+  }
+
+  /**
+   * Describes the selected match position, e.g. "(2/5)"
+   */
+  private getSearchStatus(): string {
+    if (!this.searchQuery) return '(Enter/↑ older, ↓ newer, Esc close)';
+    const matches: number[] = [];
+    for (let i = 0; i < this.messageBuffer.length; i++) {
+      if (this.messageMatchesSearch(i)) matches.push(i);
+    }
+    if (matches.length === 0) {
+      return this.isHistoryExhausted ? '(no matches)' : '(no loaded matches)';
+    }
+    const position =
+      this.searchMatchIndex === null
+        ? 0
+        : matches.length - matches.indexOf(this.searchMatchIndex);
+    return `(${position}/${matches.length}${this.isHistoryExhausted ? '' : '+'})`;
+  }
+
+  /**
+   * Efficiently redraws only the input line, preserving user text
+   */
+  private refreshInputLine() {
+    if (!this.isRunning || this.isSuspended) return;
+    if (this.updateInputAreaHeight()) return;
+    term.saveCursor();
+    term.hideCursor();
+    this.drawInputLine();
+    this.positionCursor();
+    term.hideCursor(false);
+  }
+
+  /**
+   * Positions the terminal cursor at the input editor's cursor
+   */
+  private positionCursor() {
+    if (this.isHistorySearching) {
+      term.moveTo(
+        this.getTextWidth(`(reverse-i-search)'${this.historyQuery}`) + 1,
+        this.inputTop
+      );
+      return;
+    }
+    if (this.isSearching) {
+      term.moveTo(
+        'Search: '.length + this.getTextWidth(this.searchQuery) + 1,
+        this.inputTop
+      );
+      return;
+    }
+    const { cursorRow, cursorColumn } = this.getVisibleInput();
+    term.moveTo(this.inputStartX + cursorColumn, this.inputTop + cursorRow);
+  }
+
+  /**
+   * Redraws the message history with proper formatting and line wrapping
+   */
+  private redrawMessageArea() {
+    if (!this.isRunning || this.isSuspended) return;
+
+    let availableHeight = this.messageAreaHeight;
+    let startLine = 1;
+
+    // Clear the message area
+    for (let i = 1; i <= this.messageAreaHeight; i++) {
+      term.moveTo(1, i).eraseLine();
+    }
+
+    if (this.approvalQueue.length > 0) {
+      this.redrawApprovalModal();
+      return;
+    }
+    if (this.isShowingActionDetails) {
+      this.redrawActionDetails();
+      return;
+    }
+
+    if (this.currentMission) {
+      const { mainMission, objectives } = this.currentMission;
+      const missionLines: string[] = [];
+      missionLines.push(` 🎯 Mission: ${mainMission}`);
+      if (objectives && objectives.length > 0) {
+        for (const obj of objectives) {
+          missionLines.push(
+            `    ${obj.completed ? '[x]' : '[ ]'} ${obj.description}`
+          );
+        }
+      }
+      missionLines.push('─'.repeat(term.width));
+
+      for (
+        let i = 0;
+        i < missionLines.length && startLine <= this.messageAreaHeight;
+        i++
+      ) {
+        term.moveTo(1, startLine);
+        const rawLine = missionLines[i];
+        const truncated =
+          this.getTextWidth(rawLine) > term.width
+            ? this.truncateTextToWidth(rawLine, term.width - 2).text + '…'
+            : rawLine;
+
+        if (i === 0) term.cyan(truncated);
+        else if (i === missionLines.length - 1) term.gray(truncated);
+        else {
+          if (truncated.includes('[x]')) term.green(truncated);
+          else term.white(truncated);
+        }
+        startLine++;
+        availableHeight--;
+      }
+    }
+
+    if (availableHeight <= 0) return;
+
+    // Calculate how many messages to display, ending at the scroll position
+    const endIndex = this.messageBuffer.length - this.chatScrollOffset;
+    const messagesToShow = this.messageBuffer.slice(
+      Math.max(0, endIndex - availableHeight),
+      endIndex
+    );
+
+    // First pass: calculate how many lines each message will take
+    let totalLinesNeeded = 0;
+    const messageLineCounts: number[] = [];
+
     for (const { name, message, isAction } of messagesToShow) {
+      if (isAction) {
+        messageLineCounts.push(1);
+        totalLinesNeeded += 1;
+        continue;
+      }
+
+      // Calculate maximum width for text (accounting for name and prefix)
+      const nameWidth = this.getTextWidth(name) + 2; // 2 for ': '
+      const maxTextWidth = term.width - nameWidth - 1; // -1 for safety margin
+
+      // Need at least one line even for empty messages
+      const lineCount = Math.max(
+        1,
+        this.layoutMessage(message, maxTextWidth).length
+      );
+      messageLineCounts.push(lineCount);
+      totalLinesNeeded += lineCount;
+    }
+
+    // If we need more lines than available, trim the messages from the beginning
+    if (totalLinesNeeded > availableHeight) {
+      let linesRemaining = availableHeight;
+      let startIndex = messageLineCounts.length - 1;
+
+      while (startIndex >= 0) {
+        if (linesRemaining >= messageLineCounts[startIndex]) {
+          linesRemaining -= messageLineCounts[startIndex];
+          startIndex--;
+        } else {
+          break;
+        }
+      }
+
+      // Adjust messagesToShow to only include messages that will fit
+      messagesToShow.splice(0, startIndex + 1);
+    }
+
+    // Draw messages
+    let currentLine = startLine;
+    const firstIndex = endIndex - messagesToShow.length;
+
+    for (const [i, { name, message, isAction }] of messagesToShow.entries()) {
       if (isAction) {
         term.moveTo(1, currentLine);
         const prefix = `  ${name} `;
@@ -785,29 +1938,22 @@ export class TerminalUI {
           this.getTextWidth(message) > maxMsgWidth
             ? this.truncateTextToWidth(message, maxMsgWidth).text + '…'
             : message;
-        term.dim.gray(prefix);
-        term.dim.white(arrow);
-        term.dim.gray(truncated);
+        if (firstIndex + i === this.selectedActionIndex) {
+          term.bgWhite.black(`${prefix}${arrow}${truncated}`);
+        } else {
+          term.dim.gray(prefix);
+          term.dim.white(arrow);
+          term.dim.gray(truncated);
+        }
         term.styleReset();
         currentLine++;
       } else {
-        // Split message by newlines to handle multi-line messages
-        const lines = message.split(/\r?\n/);
-
         // Calculate maximum width for text (accounting for name and prefix)
         const nameWidth = this.getTextWidth(name) + 2; // 2 for ': '
         const maxTextWidth = term.width - nameWidth - 1; // -1 for safety margin
 
-        // Process all lines, wrapping long lines as needed
-        const allLines: TextSegment[][] = [];
-
-        // For each line in the message...
-        for (const line of lines) {
-          // Parse the line into segments and wrap them
-          const segments = this.parseMessageSegments(line);
-          const wrappedLines = this.wrapTextSegments(segments, maxTextWidth);
-          allLines.push(...wrappedLines);
-        }
+        // Render markdown, wrapping long lines as needed
+        const allLines = this.layoutMessage(message, maxTextWidth);
 
         // Now display all lines
         if (allLines.length > 0) {
@@ -849,11 +1995,11 @@ export class TerminalUI {
 
   /**
    * Completely redraws the UI including messages, status, and input line.
-   * Input text is always preserved because we track it in currentUserInput
+   * Input text is always preserved because we keep it in the line editor
    * instead of relying on terminal-kit's inputField.
    */
   private redrawUI() {
-    if (!this.isRunning) return;
+    if (!this.isRunning || this.isSuspended) return;
 
     term.hideCursor();
     term.styleReset();
@@ -862,10 +2008,14 @@ export class TerminalUI {
       term.moveTo(1, i).eraseLine();
     }
 
-    if (this.viewMode === 'canvas') {
+    if (this.approvalQueue.length > 0) {
+      this.redrawApprovalModal();
+    } else if (this.viewMode === 'canvas') {
       this.redrawCanvasView();
     } else if (this.viewMode === 'agents') {
       this.redrawAgentsView();
+    } else if (this.viewMode === 'costs') {
+      this.redrawCostsView();
     } else {
       this.redrawMessageArea();
     }
@@ -885,6 +2035,7 @@ export class TerminalUI {
   public startThinking(agentName: string) {
     if (!this.isRunning) return;
     this._thinkingAgentName = agentName;
+    if (this.isSuspended) return;
     this.drawStatusLine();
   }
 
@@ -893,6 +2044,34 @@ export class TerminalUI {
    */
   public stopThinking() {
     this._thinkingAgentName = null;
+    if (this.isSuspended) return;
+    term.saveCursor();
+    term.hideCursor();
+    this.drawStatusLine();
+    term.restoreCursor();
+    term.hideCursor(false);
+  }
+
+  /**
+   * Shows an executing indicator for a gimmick
+   */
+  public startGimmickExecution(gimmickKey: string, gimmickName: string) {
+    if (!this.isRunning) return;
+    this._executingGimmicks.set(gimmickKey, gimmickName);
+    if (this.isSuspended) return;
+    term.saveCursor();
+    term.hideCursor();
+    this.drawStatusLine();
+    term.restoreCursor();
+    term.hideCursor(false);
+  }
+
+  /**
+   * Hides the executing indicator for a gimmick
+   */
+  public stopGimmickExecution(gimmickKey: string) {
+    this._executingGimmicks.delete(gimmickKey);
+    if (this.isSuspended) return;
     term.saveCursor();
     term.hideCursor();
     this.drawStatusLine();
@@ -901,177 +2080,605 @@ export class TerminalUI {
   }
 
   /**
-   * Shows an executing indicator for a gimmick
+   * Handles an incremental streaming delta from an agent's message generation.
+   * On the first delta the thinking indicator is replaced by a live message entry.
+   */
+  public handleStreamDelta(agentName: string, delta: string) {
+    if (!this.isRunning) return;
+
+    let entry = this._streamingMessages.get(agentName);
+
+    if (!entry) {
+      if (this._thinkingAgentName === agentName) {
+        this._thinkingAgentName = null;
+      }
+      const msgObj = { name: agentName, message: '' };
+      this.pushMessage(msgObj);
+      entry = { ref: msgObj };
+      this._streamingMessages.set(agentName, entry);
+    }
+
+    entry.ref.message += delta;
+    this.scheduleStreamRedraw();
+  }
+
+  /**
+   * Replaces the in-progress streaming entry with the final message text,
+   * or falls back to addMessage if there was no streaming session.
+   */
+  public finalizeStreamingMessage(name: string, finalMessage: string): boolean {
+    const entry = this._streamingMessages.get(name);
+    if (!entry) return false;
+
+    entry.ref.message = finalMessage;
+    this._streamingMessages.delete(name);
+    this.scheduleStreamRedraw();
+    return true;
+  }
+
+  /**
+   * Throttles redraws during streaming to ~20 fps to avoid flicker
+   */
+  private scheduleStreamRedraw() {
+    if (this._streamRedrawPending) return;
+    this._streamRedrawPending = true;
+    setTimeout(() => {
+      this._streamRedrawPending = false;
+      if (!this.isRunning || this.isSuspended) return;
+      term.saveCursor();
+      term.hideCursor();
+      if (this.viewMode === 'chat') {
+        this.redrawMessageArea();
+      }
+      this.drawStatusLine();
+      this.drawInputLine();
+      this.positionCursor();
+      term.hideCursor(false);
+    }, 50);
+  }
+
+  /**
+   * Appends a message, keeping the view in place while scrolled back
+   */
+  private pushMessage(entry: ChatEntry) {
+    this.messageBuffer.push(entry);
+    if (this.chatScrollOffset > 0) {
+      this.chatScrollOffset++;
+    }
+    this.trimMessageBuffer();
+  }
+
+  /**
+   * Drops the oldest messages beyond the buffer size, unless the user is
+   * scrolled back or searching through older history
+   */
+  private trimMessageBuffer() {
+    if (
+      this.chatScrollOffset > 0 ||
+      this.isSearching ||
+      this.selectedActionIndex !== null
+    ) {
+      return;
+    }
+    if (this.messageBuffer.length > this.messageBufferSize) {
+      this.messageBuffer = this.messageBuffer.slice(-this.messageBufferSize);
+      // The dropped messages can be paged back in
+      this.isHistoryExhausted = false;
+    }
+  }
+
+  /**
+   * Adds a message to the display
+   */
+  public addMessage(name: string, message: string) {
+    if (!this.isRunning) return;
+
+    this.pushMessage({ name, message });
+
+    this.redrawUI();
+  }
+
+  /**
+   * Posts a system message to the location, so agents see it as well
+   */
+  public async postSystemMessage(message: string) {
+    if (this.isRunning) {
+      this.pushMessage({
+        name: 'System',
+        message,
+        storedIndex: ++this.storedMessageCount,
+      });
+      this.redrawUI();
+    }
+    await SamoAI.instance.addLocationSystemMessage(this.locationId, message);
+  }
+
+  public addAction(agentName: string, toolCall: LlmToolCall, index = 0) {
+    if (!this.isRunning) return;
+
+    // Track timing for every call, including ones that are not shown
+    this.finishRunningAction(agentName);
+    const record: ToolCallRecord = {
+      agentName,
+      index,
+      toolCall,
+      startedAt: Date.now(),
+      response: this.lastToolsResponses.get(agentName),
+    };
+    this.runningActions.set(agentName, record);
+
+    if (HIDDEN_ACTIONS.has(toolCall.name) && !this.showHiddenActions) return;
+
+    const summary = formatToolCallSummary(toolCall);
+
+    this.pushMessage({
+      name: agentName,
+      message: summary,
+      isAction: true,
+      toolCall: record,
+    });
+
+    this.redrawUI();
+  }
+
+  /**
+   * Marks the agent's current action as finished
+   */
+  private finishRunningAction(agentName: string) {
+    const record = this.runningActions.get(agentName);
+    if (!record) return;
+    record.finishedAt = Date.now();
+    this.runningActions.delete(agentName);
+    if (this.isShowingActionDetails) this.redrawUI();
+  }
+
+  /**
+   * Shows the latest canvas text. With a modifier, the change is also
+   * recorded as a revision.
+   */
+  public updateCanvas(canvasName: string, content: string, modifier?: string) {
+    this.canvasData.set(canvasName, content);
+    if (modifier) {
+      this.options.canvasHistory?.add({
+        canvas: canvasName,
+        text: content,
+        modifier,
+        time: new Date().toISOString(),
+      });
+    }
+    if (this.viewMode === 'canvas') {
+      this.redrawUI();
+    }
+  }
+
+  /**
+   * Shows the latest text of a gimmick or agent canvas and records it
+   * as a revision by its owner
+   */
+  public updateEntityCanvas(
+    ownerType: Exclude<CanvasOwnerType, 'location'>,
+    owner: string,
+    canvasName: string,
+    content: string
+  ) {
+    const tab: CanvasTab = { ownerType, owner, name: canvasName };
+    this.entityCanvasData.set(this.getCanvasKey(tab), { tab, text: content });
+    this.options.canvasHistory?.add({
+      canvas: this.getCanvasKey(tab),
+      text: content,
+      modifier: owner,
+      time: new Date().toISOString(),
+    });
+    if (this.viewMode === 'canvas') {
+      this.redrawUI();
+    }
+  }
+
+  /**
+   * Identifies a canvas in the tab list and the canvas history. Location
+   * canvases use their plain name.
+   */
+  private getCanvasKey(tab: CanvasTab): string {
+    return tab.ownerType === 'location' ? tab.name : `${tab.owner}/${tab.name}`;
+  }
+
+  private getCanvasText(tab: CanvasTab): string {
+    return tab.ownerType === 'location'
+      ? (this.canvasData.get(tab.name) ?? '')
+      : (this.entityCanvasData.get(this.getCanvasKey(tab))?.text ?? '');
+  }
+
+  /**
+   * Canvas tabs grouped by owner: location canvases first, then gimmick
+   * and agent canvases, narrowed by the owner filter
+   */
+  private getCanvasTabs(): CanvasTab[] {
+    const entityTabs = Array.from(
+      this.entityCanvasData.values(),
+      ({ tab }) => tab
+    );
+    const tabs: CanvasTab[] = [
+      ...Array.from(this.canvasData.keys(), (name) => ({
+        ownerType: 'location' as const,
+        owner: 'Location',
+        name,
+      })),
+      // Stable sort keeps each owner's canvases in creation order
+      ...entityTabs.sort(
+        (a, b) =>
+          CANVAS_OWNER_ORDER.indexOf(a.ownerType) -
+            CANVAS_OWNER_ORDER.indexOf(b.ownerType) ||
+          a.owner.localeCompare(b.owner)
+      ),
+    ];
+    return this.canvasOwnerFilter === null
+      ? tabs
+      : tabs.filter((tab) => tab.owner === this.canvasOwnerFilter);
+  }
+
+  private getSelectedCanvasTab(): CanvasTab | undefined {
+    return this.getCanvasTabs()[this.selectedCanvasIndex];
+  }
+
+  /**
+   * Steps the owner filter through all owners with canvases, then back
+   * to showing every canvas
+   */
+  private cycleCanvasOwnerFilter() {
+    const current = this.canvasOwnerFilter;
+    this.canvasOwnerFilter = null;
+    const owners = [...new Set(this.getCanvasTabs().map((tab) => tab.owner))];
+    const index = current === null ? -1 : owners.indexOf(current);
+    this.canvasOwnerFilter = owners[index + 1] ?? null;
+    this.selectedCanvasIndex = 0;
+    this.canvasScrollOffset = 0;
+    this.canvasRevisionIndex = null;
+    this.redrawUI();
+  }
+
+  /**
+   * Display name of the user or agent behind an entity type and ID
    */
-  public startGimmickExecution(gimmickKey: string, gimmickName: string) {
-    if (!this.isRunning) return;
-    this._executingGimmicks.set(gimmickKey, gimmickName);
-    term.saveCursor();
-    term.hideCursor();
-    this.drawStatusLine();
-    term.restoreCursor();
-    term.hideCursor(false);
+  private getEntityName(entityType: unknown, entityId: unknown): string {
+    if (
+      entityType === EntityType.User &&
+      Number(entityId) === Number(this.userId)
+    ) {
+      return this.userName;
+    }
+    const agent = this.agentInfos.find(
+      (info) => Number(info.id) === Number(entityId)
+    );
+    if (entityType === EntityType.Agent && agent) return agent.name;
+    const gimmickName = this.gimmickNames.get(String(entityId));
+    if (entityType === EntityType.Gimmick && gimmickName) return gimmickName;
+    return `${String(entityType)}#${String(entityId)}`;
   }
 
   /**
-   * Hides the executing indicator for a gimmick
+   * Moves the diff view to an older (-1) or newer (+1) revision
    */
-  public stopGimmickExecution(gimmickKey: string) {
-    this._executingGimmicks.delete(gimmickKey);
-    term.saveCursor();
-    term.hideCursor();
-    this.drawStatusLine();
-    term.restoreCursor();
-    term.hideCursor(false);
+  private stepCanvasRevision(direction: number) {
+    const tab = this.getSelectedCanvasTab();
+    const revisions = tab
+      ? (this.options.canvasHistory?.get(this.getCanvasKey(tab)) ?? [])
+      : [];
+    if (revisions.length === 0) return;
+
+    const current = this.canvasRevisionIndex ?? revisions.length - 1;
+    const next = Math.max(
+      0,
+      Math.min(revisions.length - 1, current + direction)
+    );
+    this.canvasRevisionIndex = next === revisions.length - 1 ? null : next;
+    this.canvasScrollOffset = 0;
+    this.redrawUI();
   }
 
   /**
-   * Handles an incremental streaming delta from an agent's message generation.
-   * On the first delta the thinking indicator is replaced by a live message entry.
+   * Draws the selected revision of a canvas as a diff against the
+   * revision before it
    */
-  public handleStreamDelta(agentName: string, delta: string) {
-    if (!this.isRunning) return;
-
-    let entry = this._streamingMessages.get(agentName);
+  private redrawCanvasDiff(tab: CanvasTab, startLine: number, height: number) {
+    const revisions =
+      this.options.canvasHistory?.get(this.getCanvasKey(tab)) ?? [];
+    if (revisions.length === 0) {
+      term.moveTo(3, startLine);
+      term.gray('(no revisions recorded yet)');
+      return;
+    }
 
-    if (!entry) {
-      if (this._thinkingAgentName === agentName) {
-        this._thinkingAgentName = null;
-      }
-      const msgObj = { name: agentName, message: '' };
-      this.messageBuffer.push(msgObj);
-      if (this.messageBuffer.length > this.messageBufferSize) {
-        this.messageBuffer = this.messageBuffer.slice(-this.messageBufferSize);
-      }
-      entry = { ref: msgObj };
-      this._streamingMessages.set(agentName, entry);
+    const index = Math.min(
+      this.canvasRevisionIndex ?? revisions.length - 1,
+      revisions.length - 1
+    );
+    const revision = revisions[index];
+    const diff = diffLines(revisions[index - 1]?.text ?? '', revision.text);
+    const added = diff.filter((line) => line.type === 'added').length;
+    const removed = diff.filter((line) => line.type === 'removed').length;
+
+    const header = `Revision ${index + 1}/${revisions.length} · ${revision.modifier} · ${new Date(revision.time).toLocaleString()} · +${added} −${removed}`;
+    term.moveTo(2, startLine);
+    term.bold.white(splitTextAtWidth(header, term.width - 2).text);
+    term.moveTo(2, startLine + 1);
+    term.dim.gray('←/→ older/newer revision │ Ctrl+D or Esc: back');
+
+    const markers = { same: '  ', added: '+ ', removed: '- ' };
+    const rows: { type: keyof typeof markers; text: string }[] = [];
+    for (const line of diff) {
+      const wrapped = wrapTextSegments(
+        [{ text: line.text, isDim: false }],
+        Math.max(1, term.width - 4)
+      );
+      wrapped.forEach((segments, i) => {
+        rows.push({
+          type: line.type,
+          text:
+            (i === 0 ? markers[line.type] : '  ') +
+            segments.map((segment) => segment.text).join(''),
+        });
+      });
     }
 
-    entry.ref.message += delta;
-    this.scheduleStreamRedraw();
+    const bodyStart = startLine + 2;
+    const bodyHeight = height - 2;
+    const maxOffset = Math.max(0, rows.length - bodyHeight);
+    if (this.canvasScrollOffset > maxOffset) {
+      this.canvasScrollOffset = maxOffset;
+    }
+    for (let i = 0; i < bodyHeight; i++) {
+      const row = rows[this.canvasScrollOffset + i];
+      if (!row) break;
+      term.moveTo(2, bodyStart + i);
+      if (row.type === 'added') term.green(row.text);
+      else if (row.type === 'removed') term.red(row.text);
+      else term.gray(row.text);
+    }
   }
 
   /**
-   * Replaces the in-progress streaming entry with the final message text,
-   * or falls back to addMessage if there was no streaming session.
+   * Suspends the UI while the user edits `text` in their editor. Returns
+   * the saved text without the final newline editors usually add, or null
+   * after reporting why `subject` was not changed.
    */
-  public finalizeStreamingMessage(name: string, finalMessage: string): boolean {
-    const entry = this._streamingMessages.get(name);
-    if (!entry) return false;
+  private async openInEditor(
+    text: string,
+    fileName: string,
+    subject: string
+  ): Promise<string | null> {
+    // Hand the terminal to the editor
+    this.isSuspended = true;
+    term.grabInput(false);
+    term(`\x1b[?2004l`);
+    term.fullscreen(false);
+    let edited: string | null;
+    try {
+      edited = await editInExternalEditor(text, fileName);
+    } catch (e) {
+      this.addMessage('Error', `Could not open the editor: ${e}`);
+      return null;
+    } finally {
+      term.fullscreen(true);
+      term.grabInput({ mouse: 'button' });
+      term(`\x1b[?2004h`);
+      this.isSuspended = false;
+      this.clearScreen();
+      this.redrawUI();
+    }
 
-    entry.ref.message = finalMessage;
-    this._streamingMessages.delete(name);
-    this.scheduleStreamRedraw();
-    return true;
+    if (edited === null) {
+      this.addMessage(
+        'Error',
+        `Editor (${getEditorCommand()}) exited with an error; ${subject} was not changed`
+      );
+      return null;
+    }
+    return text.endsWith('\n') ? edited : edited.replace(/\r?\n$/, '');
   }
 
   /**
-   * Throttles redraws during streaming to ~20 fps to avoid flicker
+   * Opens the selected canvas in the user's editor and queues the saved
+   * text for the next location update, which saves it
    */
-  private scheduleStreamRedraw() {
-    if (this._streamRedrawPending) return;
-    this._streamRedrawPending = true;
-    setTimeout(() => {
-      this._streamRedrawPending = false;
-      if (!this.isRunning) return;
-      term.saveCursor();
-      term.hideCursor();
-      if (this.viewMode === 'chat') {
-        this.redrawMessageArea();
-      }
-      this.drawStatusLine();
-      this.drawInputLine();
-      this.positionCursor();
-      term.hideCursor(false);
-    }, 50);
+  private async editSelectedCanvas() {
+    const tab = this.getSelectedCanvasTab();
+    if (!tab) {
+      this.addMessage('System', 'No canvas to edit yet');
+      return;
+    }
+    if (tab.ownerType !== 'location') {
+      this.addMessage(
+        'System',
+        `${tab.owner}'s canvases are written by ${tab.ownerType === 'agent' ? 'the agent' : 'the gimmick'}; only location canvases can be edited`
+      );
+      return;
+    }
+    const canvasName = tab.name;
+    const current =
+      this.pendingCanvasEdits.get(canvasName) ??
+      this.canvasData.get(canvasName) ??
+      '';
+
+    const edited = await this.openInEditor(
+      this.canvasDrafts.get(canvasName) ?? current,
+      `${canvasName}.md`,
+      canvasName
+    );
+    if (edited === null) return;
+    if (edited === current) {
+      this.canvasDrafts.delete(canvasName);
+      this.addMessage('System', `${canvasName} unchanged`);
+      return;
+    }
+
+    const maxLength = this.canvasLimits.get(canvasName);
+    if (maxLength !== undefined && edited.length > maxLength) {
+      this.canvasDrafts.set(canvasName, edited);
+      this.addMessage(
+        'Error',
+        `${canvasName} is limited to ${maxLength} characters but your edit has ${edited.length}. Press Ctrl+E to shorten it; the draft is kept.`
+      );
+      return;
+    }
+
+    this.canvasDrafts.delete(canvasName);
+    this.pendingCanvasEdits.set(canvasName, edited);
+    this.addMessage(
+      'System',
+      `Your edit to ${canvasName} will be saved at the next location update`
+    );
+    try {
+      await this.locationStorage.updateLocationStatePauseUpdateUntil(
+        this.locationId,
+        new Date(Date.now() + 500)
+      );
+    } catch (e) {
+      const errMessage = e instanceof Error ? e.message : String(e);
+      this.addMessage('Error', errMessage);
+    }
   }
 
   /**
-   * Adds a message to the display
+   * Learns the declared canvases of the location and writes queued user
+   * edits through it, so the change is saved and broadcast like an
+   * agent's edit. Registered as an update loop location listener.
    */
-  public addMessage(name: string, message: string) {
-    if (!this.isRunning) return;
-
-    this.messageBuffer.push({ name, message });
-
-    if (this.messageBuffer.length > this.messageBufferSize) {
-      this.messageBuffer = this.messageBuffer.slice(-this.messageBufferSize);
+  public async applyCanvasEdits(location: Location) {
+    for (const canvas of location.meta.canvases ?? []) {
+      this.canvasLimits.set(canvas.name, canvas.maxLength);
+      if (!this.canvasData.has(canvas.name)) {
+        this.canvasData.set(canvas.name, '');
+      }
     }
 
-    this.redrawUI();
+    for (const [canvasName, text] of this.pendingCanvasEdits) {
+      this.pendingCanvasEdits.delete(canvasName);
+      const maxLength = this.canvasLimits.get(canvasName);
+      if (maxLength !== undefined && text.length > maxLength) {
+        this.canvasDrafts.set(canvasName, text);
+        this.addMessage(
+          'Error',
+          `${canvasName} is limited to ${maxLength} characters; your edit was not saved (Ctrl+E to shorten it)`
+        );
+        continue;
+      }
+      try {
+        await location.updateCanvas(
+          EntityType.User,
+          this.userId,
+          canvasName,
+          text
+        );
+        this.updateCanvas(canvasName, text, this.userName);
+        this.addMessage(
+          'System',
+          `Saved your edit to ${canvasName}; agents will see it on their next turn`
+        );
+      } catch (e) {
+        this.canvasDrafts.set(canvasName, text);
+        const errMessage = e instanceof Error ? e.message : String(e);
+        this.addMessage('Error', `Could not save ${canvasName}: ${errMessage}`);
+      }
+    }
   }
 
-  private static readonly HIDDEN_ACTIONS = new Set([
-    'send_message',
-    'send_casual_message',
-    'send_agent_message',
-  ]);
-
-  public addAction(agentName: string, toolCall: LlmToolCall) {
-    if (!this.isRunning) return;
-    if (TerminalUI.HIDDEN_ACTIONS.has(toolCall.name)) return;
-
-    let summary = toolCall.name;
-    if (toolCall.arguments && typeof toolCall.arguments === 'object') {
-      const args = toolCall.arguments as Record<string, unknown>;
-      const brief = Object.entries(args)
-        .slice(0, 3)
-        .map(([k, v]) => {
-          const val =
-            typeof v === 'string'
-              ? v.length > 30
-                ? v.slice(0, 30) + '...'
-                : v
-              : String(v);
-          return `${k}: ${val}`;
-        })
-        .join(', ');
-      if (brief) {
-        summary += `(${brief})`;
-      }
+  /**
+   * Draws the canvas tabs grouped under their owners, scrolled
+   * horizontally so the selected tab stays visible
+   */
+  private redrawCanvasTabBar(tabs: CanvasTab[]) {
+    term.moveTo(1, 1).eraseLine();
+    if (tabs.length === 0) {
+      term.gray(
+        this.canvasOwnerFilter === null
+          ? '  No canvases yet — agents will populate them during work'
+          : `  No canvases of ${this.canvasOwnerFilter} — Ctrl+G to show all`
+      );
+      return;
     }
 
-    this.messageBuffer.push({
-      name: agentName,
-      message: summary,
-      isAction: true,
+    const segments: { text: string; type: 'owner' | 'tab' | 'selected' }[] = [];
+    let selectedSegment = 0;
+    tabs.forEach((tab, i) => {
+      if (i === 0 || tabs[i - 1].owner !== tab.owner) {
+        segments.push({
+          text: `${i > 0 ? ' ' : ''}${tab.owner}:`,
+          type: 'owner',
+        });
+      }
+      if (i === this.selectedCanvasIndex) selectedSegment = segments.length;
+      segments.push({
+        text: ` ${tab.name} `,
+        type: i === this.selectedCanvasIndex ? 'selected' : 'tab',
+      });
     });
 
-    if (this.messageBuffer.length > this.messageBufferSize) {
-      this.messageBuffer = this.messageBuffer.slice(-this.messageBufferSize);
+    // Drop leading segments until the selected tab fits, keeping room for
+    // the scroll markers
+    const widths = segments.map((segment) => this.getTextWidth(segment.text));
+    let first = 0;
+    const widthUntilSelected = () =>
+      widths.slice(first, selectedSegment + 1).reduce((a, b) => a + b, 0);
+    while (first < selectedSegment && widthUntilSelected() > term.width - 4) {
+      first++;
     }
 
-    this.redrawUI();
-  }
-
-  public updateCanvas(canvasName: string, content: string) {
-    this.canvasData.set(canvasName, content);
-    if (this.viewMode === 'canvas') {
-      this.redrawUI();
+    term.moveTo(1, 1);
+    let x = 1;
+    if (first > 0) {
+      term.gray('‹ ');
+      x += 2;
+    }
+    for (let i = first; i < segments.length; i++) {
+      if (x + widths[i] > term.width - 1) {
+        term.moveTo(term.width - 1, 1).gray(' ›');
+        break;
+      }
+      const { text, type } = segments[i];
+      if (type === 'owner') term.dim.cyan(text);
+      else if (type === 'selected') term.bgWhite.black(text);
+      else term.gray(text);
+      x += widths[i];
     }
   }
 
   private redrawCanvasView() {
-    const names = Array.from(this.canvasData.keys());
+    const tabs = this.getCanvasTabs();
+    if (this.selectedCanvasIndex >= tabs.length) this.selectedCanvasIndex = 0;
+    const tab = tabs[this.selectedCanvasIndex];
 
     // Tab bar (line 1)
-    term.moveTo(1, 1).eraseLine();
-    if (names.length === 0) {
-      term.gray('  No canvases yet — agents will populate them during work');
-    } else {
-      for (let i = 0; i < names.length; i++) {
-        if (i > 0) term.gray(' │ ');
-        if (i === this.selectedCanvasIndex) {
-          term.bgWhite.black(` ${names[i]} `);
-        } else {
-          term.gray(` ${names[i]} `);
-        }
-      }
-    }
+    this.redrawCanvasTabBar(tabs);
 
-    // Separator (line 2)
+    // Separator (line 2) with the owner filter, the key hints and length
+    // of the canvas
     term.moveTo(1, 2).eraseLine();
     term.gray('─'.repeat(term.width));
+    if (this.canvasOwnerFilter !== null) {
+      term.moveTo(2, 2).dim.cyan(` Owner: ${this.canvasOwnerFilter} `);
+    }
+    if (tab) {
+      const length = this.getCanvasText(tab).length;
+      const maxLength =
+        tab.ownerType === 'location'
+          ? this.canvasLimits.get(tab.name)
+          : undefined;
+      const hints = [
+        `${length}${maxLength !== undefined ? `/${maxLength}` : ''} chars`,
+      ];
+      if (tab.ownerType === 'location' && !this.options.readOnly) {
+        hints.push('Ctrl+E edit');
+      }
+      if (this.options.canvasHistory) {
+        hints.push(
+          `Ctrl+D ${this.isCanvasDiffMode ? 'close diff' : 'history'}`
+        );
+      }
+      hints.push('Ctrl+G owner');
+      const hint = ` ${hints.join(' │ ')} `;
+      term.moveTo(Math.max(1, term.width - this.getTextWidth(hint) - 1), 2);
+      term.dim.gray(hint);
+    }
 
     // Content area
     const contentStartLine = 3;
@@ -1081,152 +2688,429 @@ export class TerminalUI {
       term.moveTo(1, contentStartLine + i).eraseLine();
     }
 
-    if (names.length === 0 || this.selectedCanvasIndex >= names.length) {
-      return;
+    if (!tab) {
+      return;
+    }
+
+    if (this.isCanvasDiffMode) {
+      this.redrawCanvasDiff(tab, contentStartLine, contentHeight);
+      return;
+    }
+
+    const content = this.getCanvasText(tab);
+    if (!content) {
+      term.moveTo(3, contentStartLine);
+      term.gray('(empty)');
+      return;
+    }
+
+    // Render content as markdown
+    const wrappedLines = renderMarkdown(content, term.width - 2);
+
+    // Clamp scroll offset
+    const maxOffset = Math.max(0, wrappedLines.length - contentHeight);
+    if (this.canvasScrollOffset > maxOffset) {
+      this.canvasScrollOffset = maxOffset;
+    }
+
+    // Draw content
+    for (let i = 0; i < contentHeight; i++) {
+      const lineIdx = this.canvasScrollOffset + i;
+      if (lineIdx >= wrappedLines.length) break;
+      term.moveTo(2, contentStartLine + i);
+      this.renderTextSegments(wrappedLines[lineIdx], 'white');
+    }
+
+    // Scroll indicator
+    if (wrappedLines.length > contentHeight) {
+      const barHeight = Math.max(
+        1,
+        Math.round((contentHeight / wrappedLines.length) * contentHeight)
+      );
+      const barPos =
+        maxOffset > 0
+          ? Math.round(
+              (this.canvasScrollOffset / maxOffset) *
+                (contentHeight - barHeight)
+            )
+          : 0;
+
+      for (let i = 0; i < contentHeight; i++) {
+        term.moveTo(term.width, contentStartLine + i);
+        if (i >= barPos && i < barPos + barHeight) {
+          term.white('█');
+        } else {
+          term.gray('░');
+        }
+      }
+    }
+  }
+
+  private pushMultiline(lines: string[], text: string) {
+    for (const line of text.split(/\r?\n/)) {
+      lines.push(line);
+    }
+  }
+
+  /**
+   * Handles keys while a slot of the agents view is selected: UP/DOWN move
+   * between slots, ENTER edits, DELETE clears after a confirmation, Ctrl+P
+   * pins a memory and ESC goes back
+   */
+  private handleAgentSlotKey(name: string) {
+    const agent = this.agentInfos[this.selectedAgentIndex];
+    const slots = agent ? this.getAgentSlots(agent) : [];
+    const slot = slots[this.selectedAgentSlot!];
+
+    if (this.isConfirmingSlotClear) {
+      this.isConfirmingSlotClear = false;
+      if (
+        agent &&
+        slot &&
+        (name === 'y' || name === 'Y' || name === 'DELETE')
+      ) {
+        void this.writeAgentSlot(agent, slot, '');
+      }
+      this.redrawUI();
+      return;
+    }
+
+    if (!agent || !slot || name === 'ESCAPE' || name === 'CTRL_O') {
+      this.selectedAgentSlot = null;
+      this.redrawUI();
+      return;
+    }
+
+    if (name === 'UP' || name === 'DOWN') {
+      const step = name === 'UP' ? -1 : 1;
+      this.selectedAgentSlot = Math.max(
+        0,
+        Math.min(slots.length - 1, this.selectedAgentSlot! + step)
+      );
+      this.redrawUI();
+    } else if (name === 'ENTER' || name === 'KP_ENTER' || name === 'CTRL_E') {
+      void this.editAgentSlot(agent, slot);
+    } else if (name === 'DELETE' || name === 'BACKSPACE') {
+      if (!this.getAgentSlotText(agent, slot)) return;
+      this.isConfirmingSlotClear = true;
+      this.redrawUI();
+    } else if (name === 'CTRL_P') {
+      this.toggleMemoryPin(agent, slot);
+    }
+  }
+
+  private getAgentSlotText(
+    agent: (typeof this.agentInfos)[number],
+    slot: AgentSlot
+  ): string {
+    switch (slot.kind) {
+      case 'summary':
+        return agent.summary;
+      case 'memory':
+        return agent.memories[slot.index] ?? '';
+      case 'entityMemory':
+        return (
+          agent.entityMemories[slot.entityIndex]?.memories[slot.index] ?? ''
+        );
+    }
+  }
+
+  private getAgentSlotLabel(
+    agent: (typeof this.agentInfos)[number],
+    slot: AgentSlot
+  ): string {
+    switch (slot.kind) {
+      case 'summary':
+        return `${agent.name}'s summary`;
+      case 'memory':
+        return `${agent.name}'s memory #${slot.index + 1}`;
+      case 'entityMemory':
+        return `${agent.name}'s memory #${slot.index + 1} about ${agent.entityMemories[slot.entityIndex].targetName}`;
+    }
+  }
+
+  private async editAgentSlot(
+    agent: (typeof this.agentInfos)[number],
+    slot: AgentSlot
+  ) {
+    const label = this.getAgentSlotLabel(agent, slot);
+    const current = this.getAgentSlotText(agent, slot);
+    const edited = await this.openInEditor(
+      current,
+      `${agent.name}-${slot.kind}.md`,
+      label
+    );
+    if (edited === null) return;
+    if (edited === current) {
+      this.addMessage('System', `${label} unchanged`);
+      return;
+    }
+    await this.writeAgentSlot(agent, slot, edited);
+  }
+
+  /**
+   * Saves a slot through AgentStorage right away and queues it for the
+   * running agent, which sees it from the next location update
+   */
+  private async writeAgentSlot(
+    agent: (typeof this.agentInfos)[number],
+    slot: AgentSlot,
+    text: string
+  ) {
+    const label = this.getAgentSlotLabel(agent, slot);
+    const edit: AgentStateEdit = {
+      agentId: agent.id,
+      kind: slot.kind,
+      index: slot.kind === 'summary' ? 0 : slot.index,
+      text,
+    };
+    if (slot.kind === 'entityMemory') {
+      const em = agent.entityMemories[slot.entityIndex];
+      edit.targetType = em.targetType;
+      edit.targetId = em.targetId;
     }
 
-    const content = this.canvasData.get(names[this.selectedCanvasIndex]) || '';
-    if (!content) {
-      term.moveTo(3, contentStartLine);
-      term.gray('(empty)');
+    try {
+      await this.saveAgentStateEdit(edit);
+    } catch (e) {
+      const errMessage = e instanceof Error ? e.message : String(e);
+      this.addMessage('Error', `Could not save ${label}: ${errMessage}`);
       return;
     }
+    this.pendingAgentEdits.set(
+      [
+        edit.agentId,
+        edit.kind,
+        edit.targetType,
+        edit.targetId,
+        edit.index,
+      ].join(':'),
+      edit
+    );
 
-    // Wrap content lines
-    const rawLines = content.split(/\r?\n/);
-    const wrappedLines: string[] = [];
-    for (const raw of rawLines) {
-      if (raw.length === 0) {
-        wrappedLines.push('');
-      } else if (this.getTextWidth(raw) <= term.width - 2) {
-        wrappedLines.push(raw);
-      } else {
-        let remaining = raw;
-        while (remaining.length > 0) {
-          const { text, remaining: rest } = this.truncateTextToWidth(
-            remaining,
-            term.width - 2
-          );
-          wrappedLines.push(text);
-          remaining = rest;
+    switch (slot.kind) {
+      case 'summary':
+        agent.summary = text;
+        break;
+      case 'memory':
+        agent.memories[slot.index] = text;
+        if (
+          this.options.memoryPins?.get(agent.name, slot.index) !== undefined
+        ) {
+          this.options.memoryPins.set(agent.name, slot.index, text);
         }
-      }
+        break;
+      case 'entityMemory':
+        agent.entityMemories[slot.entityIndex].memories[slot.index] = text;
+        break;
     }
+    this.addMessage(
+      'System',
+      `${text ? 'Saved' : 'Cleared'} ${label}; ${agent.name} sees it from the next update`
+    );
+  }
 
-    // Clamp scroll offset
-    const maxOffset = Math.max(0, wrappedLines.length - contentHeight);
-    if (this.canvasScrollOffset > maxOffset) {
-      this.canvasScrollOffset = maxOffset;
+  private async saveAgentStateEdit(edit: AgentStateEdit) {
+    switch (edit.kind) {
+      case 'summary':
+        await this.agentStorage.updateAgentStateSummary(
+          edit.agentId,
+          edit.text
+        );
+        break;
+      case 'memory':
+        await this.agentStorage.updateAgentStateMemory(
+          edit.agentId,
+          edit.index,
+          edit.text
+        );
+        break;
+      case 'entityMemory':
+        await this.agentStorage.updateAgentEntityStateMemory(
+          edit.agentId,
+          edit.targetType!,
+          edit.targetId!,
+          edit.index,
+          edit.text
+        );
+        break;
     }
+  }
 
-    // Draw content
-    for (let i = 0; i < contentHeight; i++) {
-      const lineIdx = this.canvasScrollOffset + i;
-      if (lineIdx >= wrappedLines.length) break;
-      term.moveTo(2, contentStartLine + i);
-      term.white(wrappedLines[lineIdx]);
+  /**
+   * Writes an edit into the state a running agent holds in memory, so its
+   * current turn uses it and the location saves it with the agent's state
+   */
+  private setAgentState(agent: Agent, edit: AgentStateEdit) {
+    const memory = { memory: edit.text, createdAt: new Date() };
+    switch (edit.kind) {
+      case 'summary':
+        agent.state.summary = edit.text;
+        break;
+      case 'memory':
+        agent.state.memories[edit.index] = memory;
+        break;
+      case 'entityMemory': {
+        const entityState = agent.getEntityState(
+          edit.targetType!,
+          edit.targetId!
+        );
+        if (entityState) entityState.memories[edit.index] = memory;
+        break;
+      }
     }
+  }
 
-    // Scroll indicator
-    if (wrappedLines.length > contentHeight) {
-      const barHeight = Math.max(
-        1,
-        Math.round((contentHeight / wrappedLines.length) * contentHeight)
+  private toggleMemoryPin(
+    agent: (typeof this.agentInfos)[number],
+    slot: AgentSlot
+  ) {
+    const pins = this.options.memoryPins;
+    if (!pins) {
+      this.addMessage('System', 'Memory pins are not kept here');
+      return;
+    }
+    if (slot.kind !== 'memory') {
+      this.addMessage('System', 'Only memories can be pinned');
+      return;
+    }
+    const label = this.getAgentSlotLabel(agent, slot);
+    if (pins.get(agent.name, slot.index) !== undefined) {
+      pins.delete(agent.name, slot.index);
+      this.addMessage('System', `Unpinned ${label}`);
+    } else {
+      pins.set(agent.name, slot.index, agent.memories[slot.index] ?? '');
+      this.addMessage(
+        'System',
+        `Pinned ${label}; it is restored whenever ${agent.name} overwrites it`
       );
-      const barPos =
-        maxOffset > 0
-          ? Math.round(
-              (this.canvasScrollOffset / maxOffset) *
-                (contentHeight - barHeight)
-            )
-          : 0;
+    }
+  }
 
-      for (let i = 0; i < contentHeight; i++) {
-        term.moveTo(term.width, contentStartLine + i);
-        if (i >= barPos && i < barPos + barHeight) {
-          term.white('█');
-        } else {
-          term.gray('░');
-        }
+  /**
+   * Applies saved edits and restores pinned memories in the agents of the
+   * location before it is updated. Storage is written again too, in case
+   * an update that was running during the edit saved over it.
+   * Registered as an update loop location listener.
+   */
+  public async applyAgentEdits(location: Location) {
+    const edits = [...this.pendingAgentEdits.values()];
+    this.pendingAgentEdits.clear();
+
+    const pins = this.options.memoryPins;
+    for (const info of this.agentInfos) {
+      const agent = location.agents[info.id] as Agent | undefined;
+      if (!agent) continue;
+      for (const [index, text] of pins?.entries(info.name) ?? []) {
+        if (agent.state.memories[index]?.memory === text) continue;
+        edits.push({ agentId: info.id, kind: 'memory', index, text });
+        info.memories[index] = text;
       }
     }
-  }
 
-  private pushMultiline(lines: string[], text: string) {
-    for (const line of text.split(/\r?\n/)) {
-      lines.push(line);
+    for (const edit of edits) {
+      const agent = location.agents[edit.agentId] as Agent | undefined;
+      try {
+        if (agent) this.setAgentState(agent, edit);
+        await this.saveAgentStateEdit(edit);
+      } catch (e) {
+        const errMessage = e instanceof Error ? e.message : String(e);
+        this.addMessage(
+          'Error',
+          `Could not apply an edit of agent #${edit.agentId}: ${errMessage}`
+        );
+      }
     }
   }
 
+  /**
+   * Selectable slots of an agent in display order: the summary, memories
+   * and entity memories
+   */
+  private getAgentSlots(agent: (typeof this.agentInfos)[number]): AgentSlot[] {
+    return [
+      { kind: 'summary' },
+      ...agent.memories.map((_, index) => ({ kind: 'memory' as const, index })),
+      ...agent.entityMemories.flatMap((em, entityIndex) =>
+        em.memories.map((_, index) => ({
+          kind: 'entityMemory' as const,
+          entityIndex,
+          index,
+        }))
+      ),
+    ];
+  }
+
   private buildAgentContentLines(
     agent: (typeof this.agentInfos)[number]
-  ): string[] {
-    const lines: string[] = [];
+  ): AgentContentLine[] {
+    const lines: AgentContentLine[] = [];
+    const push = (text: string, slot?: number) => lines.push({ text, slot });
+    const pushSlot = (prefix: string, text: string, slot: number) => {
+      const textLines = text.split(/\r?\n/);
+      push(prefix + textLines[0], slot);
+      const indent = ' '.repeat(prefix.length);
+      for (let j = 1; j < textLines.length; j++) {
+        push(indent + textLines[j], slot);
+      }
+    };
+    // Numbered in the order of getAgentSlots
+    let slot = 0;
 
-    lines.push('SUMMARY');
-    lines.push('─'.repeat(40));
-    if (agent.summary) {
-      this.pushMultiline(lines, agent.summary);
-    } else {
-      lines.push('(no summary)');
-    }
-    lines.push('');
+    push('SUMMARY');
+    push('─'.repeat(40));
+    pushSlot('', agent.summary || '(no summary)', slot++);
+    push('');
 
-    lines.push(`MEMORIES (${agent.memories.length})`);
-    lines.push('─'.repeat(40));
+    push(`MEMORIES (${agent.memories.length})`);
+    push('─'.repeat(40));
     if (agent.memories.length === 0) {
-      lines.push('(no memories)');
+      push('(no memories)');
     } else {
       for (let i = 0; i < agent.memories.length; i++) {
-        const prefix = `${i + 1}. `;
-        const memLines = agent.memories[i].split(/\r?\n/);
-        lines.push(prefix + memLines[0]);
-        const indent = ' '.repeat(prefix.length);
-        for (let j = 1; j < memLines.length; j++) {
-          lines.push(indent + memLines[j]);
-        }
+        const isPinned =
+          this.options.memoryPins?.get(agent.name, i) !== undefined;
+        pushSlot(
+          `${i + 1}. ${isPinned ? '[pinned] ' : ''}`,
+          agent.memories[i],
+          slot++
+        );
       }
     }
-    lines.push('');
+    push('');
 
     const totalEntityMems = agent.entityMemories.reduce(
       (sum, em) => sum + em.memories.length,
       0
     );
-    lines.push(`ENTITY MEMORIES (${totalEntityMems})`);
-    lines.push('─'.repeat(40));
+    push(`ENTITY MEMORIES (${totalEntityMems})`);
+    push('─'.repeat(40));
     if (agent.entityMemories.length === 0) {
-      lines.push('(no entity memories)');
+      push('(no entity memories)');
     } else {
       for (const em of agent.entityMemories) {
-        lines.push(`  @ ${em.targetName}`);
+        push(`  @ ${em.targetName}`);
         for (let i = 0; i < em.memories.length; i++) {
-          const prefix = `  ${i + 1}. `;
-          const memLines = em.memories[i].split(/\r?\n/);
-          lines.push(prefix + memLines[0]);
-          const indent = ' '.repeat(prefix.length);
-          for (let j = 1; j < memLines.length; j++) {
-            lines.push(indent + memLines[j]);
-          }
+          pushSlot(`  ${i + 1}. `, em.memories[i], slot++);
         }
       }
     }
-    lines.push('');
+    push('');
 
     const canvasEntries = Object.entries(agent.canvases);
-    lines.push(`CANVASES (${canvasEntries.length})`);
-    lines.push('─'.repeat(40));
+    push(`CANVASES (${canvasEntries.length})`);
+    push('─'.repeat(40));
     if (canvasEntries.length === 0) {
-      lines.push('(no canvases)');
+      push('(no canvases)');
     } else {
       for (const [name, text] of canvasEntries) {
-        lines.push(`[${name}]`);
+        push(`[${name}]`);
         if (text) {
-          this.pushMultiline(lines, text);
+          for (const line of text.split(/\r?\n/)) push(line);
         } else {
-          lines.push('(empty)');
+          push('(empty)');
         }
-        lines.push('');
+        push('');
       }
     }
 
@@ -1249,9 +3133,19 @@ export class TerminalUI {
       }
     }
 
-    // Separator (line 2)
+    // Separator (line 2) with the key hints of the selection mode
     term.moveTo(1, 2).eraseLine();
     term.gray('─'.repeat(term.width));
+    if (this.agentInfos.length > 0 && !this.options.readOnly) {
+      const hint =
+        this.selectedAgentSlot === null
+          ? ' Ctrl+O select memory '
+          : this.isConfirmingSlotClear
+            ? ' Clear the selected slot? Y/Del confirm │ any other key cancels '
+            : ' ↑/↓ select │ Enter edit │ Del clear │ Ctrl+P pin │ Esc back ';
+      term.moveTo(Math.max(1, term.width - this.getTextWidth(hint) - 1), 2);
+      term.dim.gray(hint);
+    }
 
     const contentStartLine = 3;
     const contentHeight = this.messageAreaHeight - 2;
@@ -1271,25 +3165,39 @@ export class TerminalUI {
     const rawLines = this.buildAgentContentLines(agent);
 
     // Word-wrap
-    const wrappedLines: string[] = [];
+    const wrappedLines: AgentContentLine[] = [];
     for (const raw of rawLines) {
-      if (raw.length === 0) {
-        wrappedLines.push('');
-      } else if (this.getTextWidth(raw) <= term.width - 2) {
+      if (raw.text.length === 0) {
+        wrappedLines.push(raw);
+      } else if (this.getTextWidth(raw.text) <= term.width - 2) {
         wrappedLines.push(raw);
       } else {
-        let remaining = raw;
+        let remaining = raw.text;
         while (remaining.length > 0) {
           const { text, remaining: rest } = this.truncateTextToWidth(
             remaining,
             term.width - 2
           );
-          wrappedLines.push(text);
+          wrappedLines.push({ text, slot: raw.slot });
           remaining = rest;
         }
       }
     }
 
+    // Keep the selected slot in view
+    if (this.selectedAgentSlot !== null) {
+      const first = wrappedLines.findIndex(
+        (line) => line.slot === this.selectedAgentSlot
+      );
+      let last = first;
+      while (wrappedLines[last + 1]?.slot === this.selectedAgentSlot) last++;
+      if (first >= 0 && first < this.agentScrollOffset) {
+        this.agentScrollOffset = first;
+      } else if (last >= this.agentScrollOffset + contentHeight) {
+        this.agentScrollOffset = Math.max(first, last - contentHeight + 1);
+      }
+    }
+
     // Clamp scroll
     const maxOffset = Math.max(0, wrappedLines.length - contentHeight);
     if (this.agentScrollOffset > maxOffset) {
@@ -1301,8 +3209,10 @@ export class TerminalUI {
       const lineIdx = this.agentScrollOffset + i;
       if (lineIdx >= wrappedLines.length) break;
       term.moveTo(2, contentStartLine + i);
-      const line = wrappedLines[lineIdx];
-      if (
+      const { text: line, slot } = wrappedLines[lineIdx];
+      if (slot !== undefined && slot === this.selectedAgentSlot) {
+        term.bgWhite.black(line);
+      } else if (
         line.startsWith('SUMMARY') ||
         line.startsWith('MEMORIES') ||
         line.startsWith('ENTITY MEMORIES') ||
@@ -1315,6 +3225,8 @@ export class TerminalUI {
         term.bold.green(line);
       } else if (line.startsWith('[') && line.endsWith(']')) {
         term.bold.cyan(line);
+      } else if (/^\d+\. \[pinned\] /.test(line)) {
+        term.magenta(line);
       } else {
         term.white(line);
       }
@@ -1344,6 +3256,112 @@ export class TerminalUI {
     }
   }
 
+  private buildCostTableLines(
+    title: string,
+    rows: CostBreakdownRow[],
+    width: number
+  ): string[] {
+    const columns = [
+      { label: 'Calls', width: 6 },
+      { label: 'Input', width: 10 },
+      { label: 'Cached', width: 10 },
+      { label: 'CacheWr', width: 10 },
+      { label: 'Output', width: 10 },
+      { label: 'Cost', width: 11 },
+    ];
+    const numbersWidth = columns.reduce((sum, c) => sum + c.width + 1, 0);
+    const nameWidth = Math.max(12, width - numbersWidth - 1);
+
+    const fitName = (name: string) => {
+      const text =
+        this.getTextWidth(name) > nameWidth
+          ? this.truncateTextToWidth(name, nameWidth - 1).text + '…'
+          : name;
+      return (
+        text + ' '.repeat(Math.max(0, nameWidth - this.getTextWidth(text)))
+      );
+    };
+
+    const lines: string[] = [];
+    lines.push(title);
+    lines.push('─'.repeat(Math.min(width, nameWidth + numbersWidth)));
+    lines.push(
+      fitName('Name') +
+        columns.map((c) => ' ' + c.label.padStart(c.width)).join('')
+    );
+    if (rows.length === 0) {
+      lines.push('(no LLM calls yet)');
+    }
+    for (const row of rows) {
+      const values = [
+        String(row.calls),
+        String(row.inputTokens),
+        String(row.cachedInputTokens),
+        String(row.cacheCreationTokens),
+        String(row.outputTokens),
+        `$${row.cost.toFixed(4)}${row.unpricedCalls > 0 ? '?' : ''}`,
+      ];
+      lines.push(
+        fitName(row.key) +
+          values.map((v, i) => ' ' + v.padStart(columns[i].width)).join('')
+      );
+    }
+    lines.push('');
+    return lines;
+  }
+
+  private redrawCostsView() {
+    // Title (line 1)
+    term.moveTo(1, 1).eraseLine();
+    term.bgWhite.black(' Cost Breakdown ');
+    term.gray(
+      `  Total: $${this.cumulativeCost.toFixed(4)} | In: ${this.totalInputTokens} | Out: ${this.totalOutputTokens}  ('?' = unpriced calls)`
+    );
+
+    // Separator (line 2)
+    term.moveTo(1, 2).eraseLine();
+    term.gray('─'.repeat(term.width));
+
+    const contentStartLine = 3;
+    const contentHeight = this.messageAreaHeight - 2;
+
+    for (let i = 0; i < contentHeight; i++) {
+      term.moveTo(1, contentStartLine + i).eraseLine();
+    }
+
+    const width = term.width - 2;
+    const lines = [
+      ...this.buildCostTableLines('BY AGENT', this.costBreakdown.agents, width),
+      ...this.buildCostTableLines('BY MODEL', this.costBreakdown.models, width),
+      ...this.buildCostTableLines(
+        'BY CALL TYPE',
+        this.costBreakdown.callTypes,
+        width
+      ),
+    ];
+
+    // Clamp scroll
+    const maxOffset = Math.max(0, lines.length - contentHeight);
+    if (this.costScrollOffset > maxOffset) {
+      this.costScrollOffset = maxOffset;
+    }
+
+    // Draw content
+    for (let i = 0; i < contentHeight; i++) {
+      const lineIdx = this.costScrollOffset + i;
+      if (lineIdx >= lines.length) break;
+      term.moveTo(2, contentStartLine + i);
+      const line = lines[lineIdx];
+      if (line.startsWith('BY ')) {
+        term.bold.yellow(line);
+      } else if (line.startsWith('─') || line.startsWith('Name')) {
+        term.gray(line);
+      } else {
+        term.white(line);
+      }
+    }
+  }
+
   /**
    * Loads previous chat history from storage
    */
@@ -1355,20 +3373,18 @@ export class TerminalUI {
       );
 
       if (messages?.length > 0) {
-        for (const message of messages) {
+        this.storedMessageCount = messages.length;
+        messages.forEach((message, i) => {
           if (message && message.message && message.name) {
             this.messageBuffer.push({
               name: message.name,
               message: message.message,
+              storedIndex: i + 1,
             });
           }
-        }
+        });
 
-        if (this.messageBuffer.length > this.messageBufferSize) {
-          this.messageBuffer = this.messageBuffer.slice(
-            -this.messageBufferSize
-          );
-        }
+        this.trimMessageBuffer();
       }
     } catch (e) {
       this.addMessage('Error', `Error loading initial messages: ${e}`);
@@ -1376,6 +3392,7 @@ export class TerminalUI {
 
     await this.loadInitialCanvases();
     await this.loadInitialAgents();
+    await this.loadInitialGimmickCanvases();
 
     this.clearScreen();
     this.redrawUI();
@@ -1392,6 +3409,13 @@ export class TerminalUI {
       for (const [name, canvas] of Object.entries(state.canvases)) {
         if (canvas.text) {
           this.canvasData.set(name, canvas.text);
+          // Catch up on changes made while no history was recorded
+          this.options.canvasHistory?.add({
+            canvas: name,
+            text: canvas.text,
+            modifier: '(before this session)',
+            time: new Date().toISOString(),
+          });
         }
       }
     } catch (e) {
@@ -1400,10 +3424,20 @@ export class TerminalUI {
   }
 
   private async loadInitialAgents() {
+    this.agentInfos = [];
+    await this.loadAgentInfos(
+      this.agentStorage.getAgentIds().map(Number) as AgentId[]
+    );
+  }
+
+  /**
+   * Loads the memories, summaries and canvases of agents into the agents view
+   */
+  private async loadAgentInfos(loadIds: AgentId[]) {
     try {
       const agentIds = this.agentStorage.getAgentIds().map(Number) as AgentId[];
       const models = await this.agentStorage.getAgentModels(agentIds);
-      const states = await this.agentStorage.getOrCreateAgentStates(agentIds);
+      const states = await this.agentStorage.getOrCreateAgentStates(loadIds);
 
       const locationState = await this.locationStorage.getOrCreateLocationState(
         this.locationId
@@ -1431,7 +3465,7 @@ export class TerminalUI {
 
       const agentEntityStates =
         await this.agentStorage.getOrCreateAgentEntityStates(
-          agentIds,
+          loadIds,
           agentIds,
           locationState.userIds
         );
@@ -1447,13 +3481,13 @@ export class TerminalUI {
         nameById.set(Number(locationState.userIds[0]), userModel.nickname);
       }
 
-      this.agentInfos = [];
-      for (const agentId of agentIds) {
+      for (const agentId of loadIds) {
         const model = models.get(agentId);
         const state = states.get(agentId);
         if (!model) continue;
 
-        const entityMems: { targetName: string; memories: string[] }[] = [];
+        const entityMems: (typeof this.agentInfos)[number]['entityMemories'] =
+          [];
         const aes = agentEntityStates.get(agentId);
         if (aes) {
           for (const es of aes) {
@@ -1463,11 +3497,14 @@ export class TerminalUI {
               `${es.targetType}#${es.targetId}`;
             entityMems.push({
               targetName: tName,
+              targetType: es.targetType,
+              targetId: Number(es.targetId),
               memories: es.memories.map((m) => m.memory),
             });
           }
         }
 
+        this.agentInfos = this.agentInfos.filter((info) => info.id !== agentId);
         this.agentInfos.push({
           id: agentId,
           name: model.name,
@@ -1476,12 +3513,125 @@ export class TerminalUI {
           canvases: entityCanvasMap.get(Number(agentId)) ?? {},
           entityMemories: entityMems,
         });
+
+        for (const [name, text] of Object.entries(
+          entityCanvasMap.get(Number(agentId)) ?? {}
+        )) {
+          const tab: CanvasTab = {
+            ownerType: 'agent',
+            owner: model.name,
+            name,
+          };
+          this.entityCanvasData.set(this.getCanvasKey(tab), { tab, text });
+          this.options.canvasHistory?.add({
+            canvas: this.getCanvasKey(tab),
+            text,
+            modifier: '(before this session)',
+            time: new Date().toISOString(),
+          });
+        }
       }
     } catch (e) {
       this.addMessage('Error', `Error loading agents: ${e}`);
     }
   }
 
+  /**
+   * Loads the canvases the location's gimmicks wrote in earlier sessions
+   */
+  private async loadInitialGimmickCanvases() {
+    try {
+      const model = await this.locationStorage.getLocationModel(
+        this.locationId
+      );
+      const gimmicks = Object.entries(
+        (model.meta?.gimmicks ?? {}) as Record<string, { name?: string }>
+      );
+      for (const [id, gimmick] of gimmicks) {
+        if (gimmick.name) this.gimmickNames.set(id, gimmick.name);
+      }
+
+      const locationState = await this.locationStorage.getOrCreateLocationState(
+        this.locationId
+      );
+      const entityStates =
+        await this.locationStorage.getOrCreateLocationEntityStates(
+          this.locationId,
+          [],
+          locationState.userIds,
+          gimmicks.map(([id]) => id as GimmickId)
+        );
+
+      for (const es of entityStates) {
+        if (es.targetType !== EntityType.Gimmick) continue;
+        const owner = this.getEntityName(es.targetType, es.targetId);
+        for (const [name, canvas] of Object.entries(es.canvases)) {
+          if (!canvas.text) continue;
+          const tab: CanvasTab = { ownerType: 'gimmick', owner, name };
+          this.entityCanvasData.set(this.getCanvasKey(tab), {
+            tab,
+            text: canvas.text,
+          });
+          this.options.canvasHistory?.add({
+            canvas: this.getCanvasKey(tab),
+            text: canvas.text,
+            modifier: '(before this session)',
+            time: new Date().toISOString(),
+          });
+        }
+      }
+    } catch (e) {
+      this.addMessage('Error', `Error loading gimmick canvases: ${e}`);
+    }
+  }
+
+  /**
+   * Adds an agent that joined during the session to the agents view, with
+   * its memories and canvases loaded from storage
+   */
+  public async addAgent(id: AgentId) {
+    await this.loadAgentInfos([id]);
+    if (this.viewMode === 'agents') {
+      this.redrawUI();
+    }
+  }
+
+  /**
+   * Registers an agent for the agents view without loading it from storage,
+   * e.g. during a replay
+   */
+  public addAgentInfo(id: AgentId, name: string) {
+    if (this.agentInfos.some((info) => info.id === id)) return;
+    this.agentInfos.push({
+      id,
+      name,
+      memories: [],
+      summary: '',
+      canvases: {},
+      entityMemories: [],
+    });
+    if (this.viewMode === 'agents') {
+      this.redrawUI();
+    }
+  }
+
+  /**
+   * Removes an agent from the agents view, e.g. after it left the location
+   */
+  public removeAgentInfo(id: AgentId) {
+    const index = this.agentInfos.findIndex((info) => info.id === id);
+    if (index === -1) return;
+    this.agentInfos.splice(index, 1);
+    this.selectedAgentSlot = null;
+    this.isConfirmingSlotClear = false;
+    if (this.selectedAgentIndex >= this.agentInfos.length) {
+      this.selectedAgentIndex = Math.max(0, this.agentInfos.length - 1);
+    }
+    if (this.viewMode === 'agents') {
+      this.redrawUI();
+    }
+  }
+
   public incrementSaveCount() {
     this.saveCount++;
   }
@@ -1490,6 +3640,21 @@ export class TerminalUI {
     this.saveCount--;
   }
 
+  /**
+   * Registers a listener for the messages the user submits
+   */
+  public onUserMessage(listener: (name: string, message: string) => void) {
+    this.userMessageListeners.push(listener);
+  }
+
+  /**
+   * Registers work that must finish before the process exits, e.g.
+   * flushing a log
+   */
+  public addShutdownHandler(handler: () => void | Promise<void>) {
+    this.shutdownHandlers.push(handler);
+  }
+
   /**
    * Gracefully shuts down the terminal UI
    */
@@ -1502,6 +3667,7 @@ export class TerminalUI {
       this.statusIntervalId = null;
     }
 
+    term(`\x1b[?2004l`);
     term.grabInput(false);
     this.restoreConsole();
 
@@ -1524,22 +3690,85 @@ export class TerminalUI {
       term('Save complete.\n');
     }
 
+    if (this.pendingCanvasEdits.size > 0) {
+      term(
+        `Your edits to ${[...this.pendingCanvasEdits.keys()].join(', ')} were not applied yet and are lost\n`
+      );
+    }
+
+    await this.options.history?.flush();
+    await this.options.canvasHistory?.flush();
+    await this.options.memoryPins?.flush();
+    for (const handler of this.shutdownHandlers) {
+      try {
+        await handler();
+      } catch (e) {
+        term(`${e}\n`);
+      }
+    }
+
     term('Exiting...\n');
     term.fullscreen(false);
     process.exit(0);
   }
 
-  public handleLlmResponse(response: LlmResponseBase) {
+  /**
+   * Seeds the status line totals, e.g. from the persistent cost ledger
+   */
+  public seedLlmTotals(
+    inputTokens: number,
+    outputTokens: number,
+    cost: number
+  ) {
+    this.totalInputTokens += inputTokens;
+    this.totalOutputTokens += outputTokens;
+    this.cumulativeCost += cost;
+    this.redrawUI();
+  }
+
+  public async handleLlmResponse(
+    response: LlmResponseBase,
+    entityName = 'Unknown',
+    callType: LlmCallType = 'llmUseTools'
+  ) {
     if (!this.isRunning) return;
     this.totalInputTokens += response.inputTokens || 0;
     this.totalOutputTokens += response.outputTokens || 0;
 
-    const cost = getLlmCost(response);
+    const cost = getLlmCost(response, await getLlmUsageDetails(response));
     if (cost !== undefined) {
       this.cumulativeCost += cost;
+    } else {
+      const modelKey = `${response.platform}/${response.model}`;
+      if (!this.unpricedModels.has(modelKey)) {
+        this.unpricedModels.add(modelKey);
+        this.addMessage(
+          'Warning',
+          `No price entry for ${modelKey}; its cost is not counted. Add it to llm-costs.json to track it.`
+        );
+      }
+    }
+    this.costBreakdown.add(entityName, callType, response, cost);
+
+    if (
+      this.options.budget?.add(
+        cost ?? 0,
+        (response.inputTokens || 0) + (response.outputTokens || 0)
+      )
+    ) {
+      this.addMessage(
+        'System',
+        `Budget limit reached (${this.options.budget.reason}). Agents are paused; use /budget resume or raise the cap with /budget cost <usd> or /budget tokens <count>.`
+      );
+    }
+
+    if (this.viewMode === 'costs') {
+      this.redrawUI();
+      return;
     }
 
     // We update only the status line to avoid full screen redraws
+    if (this.isSuspended) return;
     term.saveCursor();
     term.hideCursor();
     this.drawStatusLine();
@@ -1550,7 +3779,7 @@ export class TerminalUI {
   /**
    * Sets up event handlers for location messages, agent updates, and gimmick execution
    */
-  public setMessageEventHandlers(location: Location) {
+  public setMessageEventHandlers(location: LocationEventSource) {
     location.on(
       'missionSet',
       async (_loc: Location, mission: LocationMission) => {
@@ -1569,24 +3798,28 @@ export class TerminalUI {
       }
     );
 
-    location.on('llmGenerate', (_entity: Entity, response: LlmResponseBase) => {
-      this.handleLlmResponse(response);
+    location.on('llmGenerate', (entity: Entity, response: LlmResponseBase) => {
+      void this.handleLlmResponse(response, entity.name, 'llmGenerate');
     });
 
-    location.on('llmUseTools', (_entity: Entity, response: LlmResponseBase) => {
-      this.handleLlmResponse(response);
+    location.on('llmUseTools', (entity: Entity, response: LlmResponseBase) => {
+      this.lastToolsResponses.set(entity.name, response);
+      void this.handleLlmResponse(response, entity.name, 'llmUseTools');
     });
 
     location.on(
       'messageAdded',
       async (_loc: Location, message: LocationMessage) => {
-        if (message.entityType === EntityType.User || !message.message) {
-          return;
-        }
+        // The user's own messages are counted when submitted
+        if (message.entityType === EntityType.User) return;
+        const storedIndex = ++this.storedMessageCount;
+        if (!message.message) return;
 
         const displayName = message.name || 'Unknown';
 
+        const streamed = this._streamingMessages.get(displayName)?.ref;
         if (this.finalizeStreamingMessage(displayName, message.message)) {
+          streamed!.storedIndex = storedIndex;
           return;
         }
 
@@ -1594,7 +3827,12 @@ export class TerminalUI {
           this.stopThinking();
         }
 
-        this.addMessage(displayName, message.message);
+        this.pushMessage({
+          name: displayName,
+          message: message.message,
+          storedIndex,
+        });
+        this.redrawUI();
       }
     );
 
@@ -1604,18 +3842,20 @@ export class TerminalUI {
 
     location.on(
       'agentExecuteNextAction',
-      (agent: Agent, _index: number, toolCall: LlmToolCall) => {
-        this.addAction(agent.model.name, toolCall);
+      (agent: Agent, index: number, toolCall: LlmToolCall) => {
+        this.addAction(agent.model.name, toolCall, index);
       }
     );
 
     location.on('agentExecutedNextActions', async (agent: Agent) => {
+      this.finishRunningAction(agent.model.name);
       if (this.thinkingAgentName === agent.model.name) {
         this.stopThinking();
       }
     });
 
     location.on('agentExecuteNextActionsFailed', async (agent: Agent) => {
+      this.finishRunningAction(agent.model.name);
       if (this.thinkingAgentName === agent.model.name) {
         this.stopThinking();
       }
@@ -1636,6 +3876,7 @@ export class TerminalUI {
     );
 
     location.on('gimmickOccupied', (gimmick: Gimmick, _entity: Entity) => {
+      this.gimmickNames.set(String(gimmick.id), gimmick.name);
       this.startGimmickExecution(gimmick.key, gimmick.name);
     });
 
@@ -1647,12 +3888,16 @@ export class TerminalUI {
       'canvasUpdated',
       (
         _loc: Location,
-        _modType: unknown,
-        _modId: unknown,
+        modifierEntityType: unknown,
+        modifierEntityId: unknown,
         canvasName: string,
         finalText: string
       ) => {
-        this.updateCanvas(canvasName, finalText);
+        this.updateCanvas(
+          canvasName,
+          finalText,
+          this.getEntityName(modifierEntityType, modifierEntityId)
+        );
       }
     );
 
@@ -1663,6 +3908,13 @@ export class TerminalUI {
         if (!info) return;
         while (info.memories.length <= index) info.memories.push('');
         info.memories[index] = memory;
+        const pinned = this.options.memoryPins?.get(info.name, index);
+        if (pinned !== undefined && pinned !== memory) {
+          this.addMessage(
+            'System',
+            `${info.name} overwrote pinned memory #${index + 1}; it is restored before the next update`
+          );
+        }
         if (this.viewMode === 'agents') this.redrawUI();
       }
     );
@@ -1675,6 +3927,7 @@ export class TerminalUI {
     setInterval(() => {
       if (
         !this.isRunning ||
+        this.options.readOnly ||
         this.viewMode !== 'agents' ||
         this.agentInfos.length === 0
       )
@@ -1704,7 +3957,12 @@ export class TerminalUI {
         const targetName = updatingEntity.name;
         let em = info.entityMemories.find((e) => e.targetName === targetName);
         if (!em) {
-          em = { targetName, memories: [] };
+          em = {
+            targetName,
+            targetType: updatingEntity.type,
+            targetId: Number(updatingEntity.id),
+            memories: [],
+          };
           info.entityMemories.push(em);
         }
         while (em.memories.length <= index) em.memories.push('');
@@ -1716,11 +3974,22 @@ export class TerminalUI {
     location.on(
       'entityUpdateCanvas',
       (entity: Entity, canvasName: string, finalText: string) => {
+        // Check the type rather than the class, which replays do not restore
+        const isGimmick = entity.type === EntityType.Gimmick;
+        if (isGimmick) {
+          this.gimmickNames.set(String(entity.id), entity.name);
+        }
         const info = this.agentInfos.find((a) => a.name === entity.name);
         if (info) {
           info.canvases[canvasName] = finalText;
           if (this.viewMode === 'agents') this.redrawUI();
         }
+        this.updateEntityCanvas(
+          isGimmick ? 'gimmick' : 'agent',
+          entity.name,
+          canvasName,
+          finalText
+        );
       }
     );
   }
@@ -0,0 +1,81 @@
+import { LlmResponseBase, LlmToolCall } from '@little-samo/samo-ai';
+
+/**
+ * Tool calls that are already visible as chat messages
+ */
+export const HIDDEN_ACTIONS = new Set([
+  'send_message',
+  'send_casual_message',
+  'send_agent_message',
+]);
+
+/**
+ * Builds a one-line summary of a tool call, e.g. `search(query: foo)`
+ */
+export function formatToolCallSummary(toolCall: LlmToolCall): string {
+  let summary = toolCall.name;
+  if (toolCall.arguments && typeof toolCall.arguments === 'object') {
+    const args = toolCall.arguments as Record<string, unknown>;
+    const brief = Object.entries(args)
+      .slice(0, 3)
+      .map(([k, v]) => {
+        const val =
+          typeof v === 'string'
+            ? v.length > 30
+              ? v.slice(0, 30) + '...'
+              : v
+            : String(v);
+        return `${k}: ${val}`;
+      })
+      .join(', ');
+    if (brief) {
+      summary += `(${brief})`;
+    }
+  }
+  return summary;
+}
+
+/**
+ * A tool call an agent executed, with timing and the LLM response
+ * that requested it
+ */
+export interface ToolCallRecord {
+  agentName: string;
+  /** Position of the call within the agent's batch of actions */
+  index: number;
+  toolCall: LlmToolCall;
+  startedAt: number;
+  finishedAt?: number;
+  response?: LlmResponseBase;
+}
+
+/**
+ * Builds the detail lines for a tool call: origin, timing and the
+ * full arguments as pretty-printed JSON
+ */
+export function formatToolCallDetails(record: ToolCallRecord): string[] {
+  const { toolCall, response } = record;
+  const lines = [
+    `Tool: ${toolCall.name}`,
+    `Agent: ${record.agentName} (action #${record.index + 1})`,
+    `Started: ${new Date(record.startedAt).toLocaleTimeString()}`,
+    `Duration: ${
+      record.finishedAt !== undefined
+        ? `${((record.finishedAt - record.startedAt) / 1000).toFixed(2)}s`
+        : 'running…'
+    }`,
+  ];
+
+  if (response) {
+    lines.push(
+      `LLM response: ${response.platform}/${response.model}${response.thinking ? ' (thinking)' : ''}`,
+      `  tokens in ${response.inputTokens ?? 0} / out ${response.outputTokens ?? 0}, took ${((response.responseTime ?? 0) / 1000).toFixed(2)}s`
+    );
+  } else {
+    lines.push('LLM response: unknown');
+  }
+
+  lines.push('', 'Arguments:');
+  lines.push(...JSON.stringify(toolCall.arguments ?? {}, null, 2).split('\n'));
+  return lines;
+}
@@ -0,0 +1,286 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+import { LocationId, LocationMission } from '@little-samo/samo-ai';
+import { LocationStorage } from '@little-samo/samo-ai-repository-storage';
+
+import { ActionLogEntry } from './action-log';
+import { formatToolCallSummary, HIDDEN_ACTIONS } from './tool-calls';
+
+export type ExportFormat = 'md' | 'jsonl' | 'html';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'jsonl', 'html'];
+
+export interface ExportEntry {
+  time: string;
+  type: 'message' | 'action';
+  name: string;
+  message: string;
+}
+
+/**
+ * Everything that happened in a location, ready to be formatted
+ */
+export interface LocationTranscript {
+  location: string;
+  exportedAt: string;
+  mission: LocationMission | null;
+  entries: ExportEntry[];
+  canvases: { name: string; text: string }[];
+}
+
+// Large enough to load every stored message
+const ALL_MESSAGES = Number.MAX_SAFE_INTEGER;
+
+function toIsoTime(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  const date = new Date(value as string | number | Date);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Picks the export format from a file extension
+ */
+export function getExportFormat(filePath: string): ExportFormat | null {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.md':
+    case '.markdown':
+      return 'md';
+    case '.jsonl':
+      return 'jsonl';
+    case '.html':
+    case '.htm':
+      return 'html';
+    default:
+      return null;
+  }
+}
+
+export function defaultExportPath(
+  location: string,
+  format: ExportFormat
+): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return path.join(
+    process.cwd(),
+    'states',
+    'exports',
+    `${location}-${timestamp}.${format}`
+  );
+}
+
+/**
+ * Loads the full message history, mission and canvases of a location.
+ * Tool calls are not stored with the messages, so the caller passes the
+ * ones from the location's action log to merge them in by time.
+ */
+export async function loadLocationTranscript(
+  locationStorage: LocationStorage,
+  locationId: LocationId,
+  location: string,
+  actions: ActionLogEntry[] = [],
+  includeHiddenActions = false
+): Promise<LocationTranscript> {
+  const messages =
+    (await locationStorage.getLocationMessages(locationId, ALL_MESSAGES)) ?? [];
+  const state = await locationStorage.getOrCreateLocationState(locationId);
+
+  const entries: ExportEntry[] = [];
+  let lastTime = new Date(0).toISOString();
+  for (const message of messages) {
+    if (!message) continue;
+    const time = toIsoTime(message.createdAt) ?? lastTime;
+    lastTime = time;
+    const name = message.name || 'Unknown';
+    if (message.action) {
+      entries.push({ time, type: 'action', name, message: message.action });
+    }
+    if (message.message) {
+      entries.push({ time, type: 'message', name, message: message.message });
+    }
+  }
+
+  for (const action of actions) {
+    if (HIDDEN_ACTIONS.has(action.toolCall.name) && !includeHiddenActions) {
+      continue;
+    }
+    entries.push({
+      time: action.time,
+      type: 'action',
+      name: action.agent,
+      message: formatToolCallSummary(action.toolCall),
+    });
+  }
+  // Stable, so entries with the same time keep their order
+  entries.sort((a, b) => a.time.localeCompare(b.time));
+
+  return {
+    location,
+    exportedAt: new Date().toISOString(),
+    mission: state.mission || null,
+    entries,
+    canvases: Object.entries(state.canvases)
+      .filter(([, canvas]) => canvas.text)
+      .map(([name, canvas]) => ({ name, text: canvas.text })),
+  };
+}
+
+function formatMarkdown(transcript: LocationTranscript): string {
+  const lines = [
+    `# ${transcript.location}`,
+    '',
+    `Exported ${transcript.exportedAt}`,
+    '',
+  ];
+
+  if (transcript.mission) {
+    lines.push('## Mission', '', transcript.mission.mainMission, '');
+    for (const objective of transcript.mission.objectives ?? []) {
+      lines.push(
+        `- [${objective.completed ? 'x' : ' '}] ${objective.description}`
+      );
+    }
+    lines.push('');
+  }
+
+  lines.push('## Conversation', '');
+  for (const entry of transcript.entries) {
+    if (entry.type === 'action') {
+      lines.push(`> *${entry.name} ▸ ${entry.message}*`, '');
+    } else {
+      lines.push(`**${entry.name}** · ${entry.time}`, '', entry.message, '');
+    }
+  }
+
+  if (transcript.canvases.length > 0) {
+    lines.push('## Canvases', '');
+    for (const canvas of transcript.canvases) {
+      lines.push(`### ${canvas.name}`, '', canvas.text, '');
+    }
+  }
+  return lines.join('\n');
+}
+
+function formatJsonLines(transcript: LocationTranscript): string {
+  const lines = [
+    JSON.stringify({
+      type: 'header',
+      location: transcript.location,
+      exportedAt: transcript.exportedAt,
+      mission: transcript.mission,
+    }),
+    ...transcript.entries.map((entry) => JSON.stringify(entry)),
+    ...transcript.canvases.map((canvas) =>
+      JSON.stringify({ type: 'canvas', ...canvas })
+    ),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 820px; margin: 2em auto; padding: 0 1em; color: #1f2328; line-height: 1.5; }
+h1 { margin-bottom: 0; }
+.meta { color: #656d76; }
+.message { margin: 0.75em 0; }
+.message .name { font-weight: 600; }
+.message .time { color: #656d76; font-size: 0.85em; margin-left: 0.5em; }
+.message .text, .canvas { white-space: pre-wrap; }
+.action { color: #656d76; font-style: italic; margin: 0.25em 0 0.25em 1em; }
+.objectives { list-style: none; padding-left: 1em; }
+.canvas { background: #f6f8fa; border-radius: 6px; padding: 1em; font-family: ui-monospace, Menlo, monospace; font-size: 0.9em; }
+`.trim();
+
+function formatHtml(transcript: LocationTranscript): string {
+  const body: string[] = [
+    `<h1>${escapeHtml(transcript.location)}</h1>`,
+    `<p class="meta">Exported ${escapeHtml(transcript.exportedAt)}</p>`,
+  ];
+
+  if (transcript.mission) {
+    body.push(
+      '<h2>Mission</h2>',
+      `<p>${escapeHtml(transcript.mission.mainMission)}</p>`,
+      '<ul class="objectives">',
+      ...(transcript.mission.objectives ?? []).map(
+        (objective) =>
+          `<li>${objective.completed ? '☑' : '☐'} ${escapeHtml(objective.description)}</li>`
+      ),
+      '</ul>'
+    );
+  }
+
+  body.push('<h2>Conversation</h2>');
+  for (const entry of transcript.entries) {
+    if (entry.type === 'action') {
+      body.push(
+        `<div class="action">${escapeHtml(entry.name)} ▸ ${escapeHtml(entry.message)}</div>`
+      );
+    } else {
+      body.push(
+        '<div class="message">',
+        `<span class="name">${escapeHtml(entry.name)}</span><span class="time">${escapeHtml(entry.time)}</span>`,
+        `<div class="text">${escapeHtml(entry.message)}</div>`,
+        '</div>'
+      );
+    }
+  }
+
+  if (transcript.canvases.length > 0) {
+    body.push('<h2>Canvases</h2>');
+    for (const canvas of transcript.canvases) {
+      body.push(
+        `<h3>${escapeHtml(canvas.name)}</h3>`,
+        `<div class="canvas">${escapeHtml(canvas.text)}</div>`
+      );
+    }
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(transcript.location)} transcript</title>`,
+    `<style>\n${HTML_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+export function formatLocationTranscript(
+  transcript: LocationTranscript,
+  format: ExportFormat
+): string {
+  switch (format) {
+    case 'md':
+      return formatMarkdown(transcript);
+    case 'jsonl':
+      return formatJsonLines(transcript);
+    case 'html':
+      return formatHtml(transcript);
+  }
+}
+
+/**
+ * Writes the transcript, creating the parent directory if needed
+ */
+export async function writeLocationTranscript(
+  transcript: LocationTranscript,
+  filePath: string,
+  format: ExportFormat
+) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, formatLocationTranscript(transcript, format));
+}
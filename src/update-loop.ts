@@ -0,0 +1,107 @@
+import { Location, LocationId, SamoAI, UserId } from '@little-samo/samo-ai';
+import { LocationStorage } from '@little-samo/samo-ai-repository-storage';
+
+/**
+ * Callbacks the update loop uses to report progress to its front-end
+ * (the fullscreen TerminalUI or a headless script runner)
+ */
+export interface UpdateLoopHandlers {
+  setMessageEventHandlers(location: Location): void;
+  incrementSaveCount(): void;
+  decrementSaveCount(): void;
+  addMessage(name: string, message: string): void;
+}
+
+/**
+ * Periodically checks for and processes agent responses in a location
+ */
+export class LocationUpdateLoop {
+  private isRunning = false;
+  private locationListeners: ((location: Location) => void | Promise<void>)[] =
+    [];
+  private pauseConditions: (() => boolean)[] = [];
+
+  public constructor(
+    private locationStorage: LocationStorage,
+    private userId: UserId,
+    private locationId: LocationId,
+    private handlers: UpdateLoopHandlers
+  ) {}
+
+  public get running(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Registers an additional listener that is attached to every
+   * location instance before it is updated. Async listeners are awaited.
+   */
+  public addLocationListener(
+    listener: (location: Location) => void | Promise<void>
+  ) {
+    this.locationListeners.push(listener);
+  }
+
+  /**
+   * Registers a condition that, while true, keeps the loop from
+   * updating the location
+   */
+  public addPauseCondition(condition: () => boolean) {
+    this.pauseConditions.push(condition);
+  }
+
+  public start() {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    void this.run();
+  }
+
+  public stop() {
+    this.isRunning = false;
+  }
+
+  private async run() {
+    while (this.isRunning) {
+      try {
+        const locationState =
+          await this.locationStorage.getOrCreateLocationState(this.locationId);
+        const now = new Date();
+
+        if (
+          !this.pauseConditions.some((condition) => condition()) &&
+          locationState.pauseUpdateUntil &&
+          new Date(locationState.pauseUpdateUntil) <= now
+        ) {
+          await SamoAI.instance.updateLocation(this.userId, this.locationId, {
+            preAction: async (location: Location) => {
+              // Setup message and thinking event handlers
+              this.handlers.setMessageEventHandlers(location);
+              for (const listener of this.locationListeners) {
+                await listener(location);
+              }
+            },
+            handleSave: async (save) => {
+              this.handlers.incrementSaveCount();
+              try {
+                await save;
+              } catch (error) {
+                const errMessage =
+                  error instanceof Error ? error.message : String(error);
+                this.handlers.addMessage('Error', `Save failed: ${errMessage}`);
+              } finally {
+                this.handlers.decrementSaveCount();
+              }
+            },
+          });
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      } catch (error) {
+        const errMessage =
+          error instanceof Error ? error.message : String(error);
+        this.handlers.addMessage('Error', `Update Loop: ${errMessage}`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+    }
+  }
+}